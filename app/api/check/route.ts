@@ -0,0 +1,164 @@
+import { NextResponse } from 'next/server';
+import { parseCoherence, type CoherenceSettings } from '../../lib/coherence';
+import { parseRuleConfig, type RuleConfig } from '../../lib/diagnostics';
+import { FORMAT_LABELS, type FormatChoice } from '../../lib/formats';
+import { grammarItems, type GrammarResult } from '../../lib/grammar';
+import { checkGrammar, languageToolOptionsFor, type LanguageToolOptions } from '../../lib/languageTool';
+import { parseRubric } from '../../lib/parseRubric';
+import { buildReport } from '../../lib/report';
+import { extractResponseFacts } from '../../lib/responseFacts';
+import { readBody } from '../../lib/requestBody';
+import { BUILTIN_RULES } from '../../lib/rules';
+import { parseTemplate, type RubricTemplate } from '../../lib/template';
+import { uniqueTerms } from '../../lib/terminology';
+
+// Character limits per field; the body limit leaves room for JSON escaping.
+const LIMITS = { rubric: 200_000, response: 500_000, template: 100_000 };
+const MAX_BODY_BYTES = 2_000_000;
+
+interface CheckRequest {
+  rubric: string;
+  response?: string; // the model response the rubric grades
+  template?: string; // answer-key template text (JSON or key: value)
+  format: FormatChoice;
+  rules?: RuleConfig;
+  terms?: string[]; // canonical term spellings for the term-casing rule
+  coherence?: CoherenceSettings; // partial-credit policy and verdict phrase lexicon
+  grammar?: LanguageToolOptions; // set when grammar checking was asked for
+}
+
+interface RequestProblem {
+  status: number;
+  code: string;
+  error: string;
+  field?: string;
+}
+
+// Errors keep the `error` message used by /api/grammar and add a stable code (and the offending field).
+function fail({ status, code, error, field }: RequestProblem) {
+  return NextResponse.json({ error, code, field }, { status });
+}
+
+function validate(body: unknown): CheckRequest | RequestProblem {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { status: 400, code: 'invalid_body', error: 'Body must be a JSON object.' };
+  }
+  const input = body as Record<string, unknown>;
+
+  const strings: Partial<Record<keyof typeof LIMITS, string>> = {};
+  for (const field of Object.keys(LIMITS) as (keyof typeof LIMITS)[]) {
+    const value = input[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'string') return { status: 400, code: 'invalid_field', error: `${field} must be a string.`, field };
+    if (value.length > LIMITS[field]) {
+      return { status: 413, code: 'too_large', error: `${field} is longer than ${LIMITS[field]} characters.`, field };
+    }
+    strings[field] = value;
+  }
+  if (!strings.rubric?.trim()) return { status: 400, code: 'missing_field', error: 'rubric is required.', field: 'rubric' };
+
+  const format = input.format ?? 'auto';
+  if (typeof format !== 'string' || !Object.hasOwn(FORMAT_LABELS, format)) {
+    return {
+      status: 400,
+      code: 'invalid_field',
+      error: `format must be one of: ${Object.keys(FORMAT_LABELS).join(', ')}.`,
+      field: 'format'
+    };
+  }
+  let rules: RuleConfig | undefined;
+  if (input.rules !== undefined) {
+    try {
+      rules = parseRuleConfig(input.rules, BUILTIN_RULES);
+    } catch (err) {
+      return { status: 400, code: 'invalid_field', error: err instanceof Error ? err.message : 'Invalid rule settings.', field: 'rules' };
+    }
+  }
+  if (input.terms !== undefined && (!Array.isArray(input.terms) || input.terms.some((t) => typeof t !== 'string'))) {
+    return { status: 400, code: 'invalid_field', error: 'terms must be an array of strings.', field: 'terms' };
+  }
+  let coherence: CoherenceSettings | undefined;
+  if (input.coherence !== undefined) {
+    try {
+      coherence = parseCoherence(input.coherence);
+    } catch (err) {
+      return { status: 400, code: 'invalid_field', error: err instanceof Error ? err.message : 'Invalid coherence settings.', field: 'coherence' };
+    }
+  }
+  // `grammar: true`, or an object with LanguageTool `language` / `level` (/ `url`) settings.
+  const grammar = input.grammar;
+  let grammarOptions: LanguageToolOptions | undefined;
+  if (grammar !== undefined && grammar !== false) {
+    if (grammar !== true && (typeof grammar !== 'object' || grammar === null || Array.isArray(grammar))) {
+      return { status: 400, code: 'invalid_field', error: 'grammar must be a boolean or an options object.', field: 'grammar' };
+    }
+    try {
+      grammarOptions = languageToolOptionsFor(grammar === true ? {} : grammar);
+    } catch (err) {
+      return { status: 400, code: 'invalid_field', error: err instanceof Error ? err.message : 'Invalid grammar options.', field: 'grammar' };
+    }
+  }
+
+  return {
+    rubric: strings.rubric,
+    response: strings.response,
+    template: strings.template,
+    format: format as FormatChoice,
+    rules,
+    terms: input.terms === undefined ? undefined : uniqueTerms(input.terms as string[]),
+    coherence,
+    grammar: grammarOptions
+  };
+}
+
+export async function POST(req: Request) {
+  if (!(req.headers.get('content-type') ?? '').includes('application/json')) {
+    return fail({ status: 415, code: 'unsupported_media_type', error: 'Send the request as application/json.' });
+  }
+  const text = await readBody(req, MAX_BODY_BYTES);
+  if (text === undefined) {
+    return fail({ status: 413, code: 'too_large', error: `Body is larger than ${MAX_BODY_BYTES} bytes.` });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return fail({ status: 400, code: 'invalid_json', error: 'Body is not valid JSON.' });
+  }
+  const request = validate(body);
+  if ('status' in request) return fail(request);
+
+  let template: RubricTemplate | undefined;
+  if (request.template?.trim()) {
+    try {
+      template = parseTemplate(request.template);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Template could not be read.';
+      return fail({ status: 422, code: 'invalid_template', error: message, field: 'template' });
+    }
+  }
+
+  try {
+    const parsed = parseRubric(request.rubric, {
+      format: request.format,
+      ruleConfig: request.rules,
+      template,
+      terms: request.terms,
+      coherence: request.coherence,
+      response: request.response?.trim() ? extractResponseFacts(request.response) : undefined
+    });
+    let grammar: GrammarResult[] | undefined;
+    if (request.grammar) {
+      grammar = await checkGrammar(grammarItems(parsed.entries), request.grammar);
+      // Partial failures are listed in the report; only a check that reached nothing is an error.
+      if (grammar.length && grammar.every((r) => r.error)) {
+        return fail({ status: 502, code: 'grammar_unavailable', error: grammar[0].error as string });
+      }
+    }
+    return NextResponse.json(buildReport(parsed, { raw: request.rubric, grammar }));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unexpected error';
+    return NextResponse.json({ error: message, code: 'internal' }, { status: 500 });
+  }
+}
@@ -0,0 +1,6 @@
+import { NextResponse } from 'next/server';
+import { REPORT_SCHEMA } from '../../../lib/reportSchema';
+
+export function GET() {
+  return NextResponse.json(REPORT_SCHEMA);
+}
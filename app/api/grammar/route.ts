@@ -1,77 +1,105 @@
 import { NextResponse } from 'next/server';
+import { checkGrammar, languageToolOptionsFor, type GrammarRequestItem, type LanguageToolOptions } from '../../lib/languageTool';
+import { readBody } from '../../lib/requestBody';
 
-interface GrammarRequestItem {
-  id: string;
-  text: string;
+// Limits before anything is sent to LanguageTool; the body limit leaves room for JSON escaping.
+const MAX_ITEMS = 500;
+const MAX_TEXT_CHARS = 20_000;
+const MAX_BODY_BYTES = 2_000_000;
+
+interface RequestProblem {
+  status: number;
+  code: string;
+  error: string;
+  field?: string;
 }
 
-interface LanguageToolMatch {
-  message: string;
-  shortMessage?: string;
-  replacements?: { value: string }[];
-  context?: { text: string };
-  offset?: number;
-  length?: number;
-  rule?: { id?: string };
+// The same error shape as /api/check.
+function fail({ status, code, error, field }: RequestProblem) {
+  return NextResponse.json({ error, code, field }, { status });
 }
 
-const DEFAULT_API_URL = 'https://api.languagetool.org/v2/check';
+function validateItems(value: unknown): GrammarRequestItem[] | RequestProblem {
+  if (!Array.isArray(value) || !value.length) {
+    return { status: 400, code: 'missing_field', error: 'items array is required', field: 'items' };
+  }
+  if (value.length > MAX_ITEMS) {
+    return { status: 413, code: 'too_large', error: `At most ${MAX_ITEMS} items can be checked at once.`, field: 'items' };
+  }
+  for (const item of value) {
+    if (!item || typeof item !== 'object' || typeof item.id !== 'string' || typeof item.text !== 'string') {
+      return { status: 400, code: 'invalid_field', error: 'Each item must be an object with string id and text.', field: 'items' };
+    }
+    if (item.text.length > MAX_TEXT_CHARS) {
+      return { status: 413, code: 'too_large', error: `Item ${item.id} is longer than ${MAX_TEXT_CHARS} characters.`, field: 'items' };
+    }
+  }
+  return (value as GrammarRequestItem[]).map(({ id, text }) => ({ id, text }));
+}
 
 export async function POST(req: Request) {
   try {
-    const body = await req.json();
-    const items: GrammarRequestItem[] = Array.isArray(body?.items) ? body.items : [];
-
-    if (!items.length) {
-      return NextResponse.json({ error: 'items array is required' }, { status: 400 });
+    const text = await readBody(req, MAX_BODY_BYTES);
+    if (text === undefined) {
+      return fail({ status: 413, code: 'too_large', error: `Body is larger than ${MAX_BODY_BYTES} bytes.` });
+    }
+    let body: Record<string, unknown>;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return fail({ status: 400, code: 'invalid_json', error: 'Body is not valid JSON.' });
+    }
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return fail({ status: 400, code: 'invalid_body', error: 'Body must be a JSON object.' });
     }
 
-    // Always use the public HTTP endpoint; no API key required/accepted here.
-    const apiUrl = DEFAULT_API_URL;
-
-    const results = await Promise.all(
-      items.map(async (item) => {
-        const params = new URLSearchParams({
-          text: item.text,
-          language: 'en-US',
-          level: 'picky'
-        });
+    const items = validateItems(body.items);
+    if (!Array.isArray(items)) return fail(items);
 
-        const response = await fetch(apiUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded'
-          },
-          body: params,
-          credentials: 'omit'
-        });
+    let options: LanguageToolOptions;
+    try {
+      options = languageToolOptionsFor(body);
+    } catch (err) {
+      return fail({ status: 400, code: 'invalid_field', error: err instanceof Error ? err.message : 'Invalid options' });
+    }
 
-        if (!response.ok) {
-          const message = await response.text();
-          throw new Error(`LanguageTool error (${response.status}): ${message}`);
+    // `stream: true` answers with NDJSON: one GrammarResult per line, in the order they finish.
+    // Closing the request stops the check before the remaining items are sent to LanguageTool.
+    if (body.stream === true) {
+      const encoder = new TextEncoder();
+      const stopped = new AbortController();
+      req.signal.addEventListener('abort', () => stopped.abort());
+      const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          // The stream always ends, so a failed check cannot leave the client waiting. (Erroring a
+          // stream the client already cancelled does nothing.)
+          try {
+            await checkGrammar(items, options, {
+              signal: stopped.signal,
+              onResult: (result) => {
+                if (!stopped.signal.aborted) controller.enqueue(encoder.encode(`${JSON.stringify(result)}\n`));
+              }
+            });
+            controller.close();
+          } catch (err) {
+            controller.error(err);
+          }
+        },
+        cancel() {
+          stopped.abort();
         }
+      });
+      return new Response(stream, {
+        headers: { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' }
+      });
+    }
 
-        const data = (await response.json()) as { matches?: LanguageToolMatch[] };
-        // Ignore very short tokens (e.g., 2-letter chemical formulas).
-        const filteredMatches = (data.matches || []).filter((match) => (match.length ?? 0) > 2);
-
-        const issues = filteredMatches.map((match) => ({
-          message: match.message,
-          shortMessage: match.shortMessage,
-          replacements: (match.replacements || []).map((r) => r.value),
-          context: match.context?.text ?? '',
-          offset: match.offset ?? 0,
-          length: match.length ?? 0,
-          ruleId: match.rule?.id
-        }));
-
-        return { id: item.id, issues };
-      })
-    );
+    // Items that fail (rate limits, timeouts) carry an `error`; the rest still return their issues.
+    const results = await checkGrammar(items, options);
 
     return NextResponse.json({ results });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unexpected error';
-    return NextResponse.json({ error: message }, { status: 500 });
+    return NextResponse.json({ error: message, code: 'internal' }, { status: 500 });
   }
 }
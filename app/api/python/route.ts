@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { checkPython, pythonOptionsFromEnv, runSandbox } from '../../lib/pythonCheck';
+
+const MAX_BLOCKS = 20;
+const MAX_BLOCK_CHARS = 50_000;
+
+function fail(status: number, code: string, error: string, field?: string) {
+  return NextResponse.json({ error, code, field }, { status });
+}
+
+// Body: { "blocks": ["print(1)", ...], "execute": false }. Running blocks also needs PYTHON_EXECUTION=1.
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return fail(400, 'invalid_json', 'Body is not valid JSON.');
+  }
+  const input = (body ?? {}) as Record<string, unknown>;
+  const blocks = input.blocks;
+  if (!Array.isArray(blocks) || !blocks.length || blocks.some((b) => typeof b !== 'string')) {
+    return fail(400, 'invalid_field', 'blocks must be a non-empty array of strings.', 'blocks');
+  }
+  if (blocks.length > MAX_BLOCKS) return fail(413, 'too_large', `At most ${MAX_BLOCKS} blocks can be checked at once.`, 'blocks');
+  if (blocks.some((b: string) => b.length > MAX_BLOCK_CHARS)) {
+    return fail(413, 'too_large', `Blocks are limited to ${MAX_BLOCK_CHARS} characters.`, 'blocks');
+  }
+
+  const options = pythonOptionsFromEnv();
+  const execute = input.execute === true;
+  if (execute && !options.execute) {
+    return fail(403, 'execution_disabled', 'Running code is turned off on this server (set PYTHON_EXECUTION=1 to allow it).', 'execute');
+  }
+  if (execute && !(await runSandbox(options.python))) {
+    return fail(
+      403,
+      'sandbox_unavailable',
+      'Running code needs a sandbox (unshare and setpriv as root, bwrap otherwise, and an interpreter nobody can read), which this server cannot set up.',
+      'execute'
+    );
+  }
+
+  try {
+    return NextResponse.json(await checkPython(blocks as string[], options, execute));
+  } catch (err) {
+    return fail(500, 'internal', err instanceof Error ? err.message : 'Python check failed.');
+  }
+}
+
+// Lets the page know whether to offer "run" before anyone asks for it.
+export async function GET() {
+  const options = pythonOptionsFromEnv();
+  return NextResponse.json({ execute: options.execute && Boolean(await runSandbox(options.python)) });
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import Link from 'next/link';
+import { useMemo, useState } from 'react';
+import BatchDropZone from '../components/BatchDropZone';
+import { checkBatchFile, issueTotals, type BatchFile, type BatchRow } from '../lib/batch';
+import { DEFAULT_COHERENCE, parseCoherence, type CoherenceSettings } from '../lib/coherence';
+import type { RuleConfig } from '../lib/diagnostics';
+import { formatScore } from '../lib/format';
+import { BUILTIN_RULES } from '../lib/rules';
+import { encodeSharedReview } from '../lib/sessions';
+import { parseTemplate } from '../lib/template';
+import { DEFAULT_TERMS, parseTerms } from '../lib/terminology';
+import { usePersistentState } from '../lib/usePersistentState';
+
+type SortKey = 'path' | 'items' | 'expectedTotal' | 'wrongVerdicts' | 'error' | 'warning' | 'info';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'path', label: 'File' },
+  { key: 'items', label: 'Items' },
+  { key: 'expectedTotal', label: 'Expected total' },
+  { key: 'wrongVerdicts', label: 'Wrong verdicts' },
+  { key: 'error', label: 'Errors' },
+  { key: 'warning', label: 'Warnings' },
+  { key: 'info', label: 'Info' }
+];
+
+const RULE_TITLES = new Map(BUILTIN_RULES.map((rule) => [rule.id, rule.title]));
+
+function sortValue(row: BatchRow, key: SortKey): string | number {
+  if (key === 'path') return row.path;
+  if (key === 'error' || key === 'warning' || key === 'info') return row.counts[key];
+  return row[key];
+}
+
+// Opens one file in the checker through a share link, in a new tab so the batch stays put.
+async function openInChecker(row: BatchRow) {
+  const tab = window.open('', '_blank');
+  const url = `/${await encodeSharedReview({ rubric: row.text, response: '' })}`;
+  if (tab) tab.location.href = url;
+  else window.location.href = url;
+}
+
+export default function BatchPage() {
+  const [files, setFiles] = useState<BatchFile[]>([]);
+  const [problems, setProblems] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [issue, setIssue] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'path', descending: false });
+
+  // The same settings as the single-rubric view, read from this browser.
+  const [ruleConfig] = usePersistentState<RuleConfig>('rubric-checker:rule-config', {});
+  const [templateText] = usePersistentState<string>('rubric-checker:template', '');
+  const [termsText] = usePersistentState<string>('rubric-checker:terms', DEFAULT_TERMS.join('\n'));
+  const [storedCoherence] = usePersistentState<CoherenceSettings>('rubric-checker:coherence', DEFAULT_COHERENCE);
+  const settings = useMemo(() => {
+    const attempt = <T,>(read: () => T, fallback: T) => {
+      try {
+        return read();
+      } catch {
+        return fallback;
+      }
+    };
+    return {
+      ruleConfig,
+      template: templateText.trim() ? attempt(() => parseTemplate(templateText), undefined) : undefined,
+      terms: attempt(() => parseTerms(termsText), DEFAULT_TERMS),
+      coherence: attempt(() => parseCoherence(storedCoherence), DEFAULT_COHERENCE)
+    };
+  }, [ruleConfig, templateText, termsText, storedCoherence]);
+
+  const rows = useMemo(() => files.map((file) => checkBatchFile(file, settings)), [files, settings]);
+  const totals = useMemo(() => issueTotals(rows), [rows]);
+
+  const visible = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = rows.filter((row) => (!needle || row.path.toLowerCase().includes(needle)) && (!issue || row.rules[issue]));
+    const direction = sort.descending ? -1 : 1;
+    return filtered.sort((a, b) => {
+      const x = sortValue(a, sort.key);
+      const y = sortValue(b, sort.key);
+      return (typeof x === 'string' ? x.localeCompare(y as string) : x - (y as number)) * direction;
+    });
+  }, [rows, query, issue, sort]);
+
+  const filesWithErrors = rows.filter((row) => row.error || row.counts.error).length;
+  const filesWithWarnings = rows.filter((row) => !row.error && !row.counts.error && row.counts.warning + row.counts.info).length;
+  const maxFindings = totals[0]?.findings ?? 0;
+
+  function sortBy(key: SortKey) {
+    setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : key !== 'path' }));
+  }
+
+  return (
+    <div className="container">
+      <header>
+        <h1>Batch Check</h1>
+        <p>
+          Check a whole folder of rubrics at once with the settings from the checker (rules, template, terminology,
+          coherence). Files are read in the browser and never uploaded. <Link href="/">Back to the checker</Link>
+        </p>
+      </header>
+
+      <BatchDropZone
+        onLoad={(loaded, found) => {
+          setFiles(loaded);
+          setProblems(found);
+          setIssue('');
+        }}
+      />
+      {problems.length > 0 && (
+        <ul style={{ color: 'var(--error)', marginTop: 10 }}>
+          {problems.map((problem) => (
+            <li key={problem}>{problem}</li>
+          ))}
+        </ul>
+      )}
+
+      {rows.length > 0 && (
+        <>
+          <div className="section-grid" style={{ marginTop: 18 }}>
+            <div className="card card-strong">
+              <h3 style={{ marginTop: 0 }}>At a glance</h3>
+              <div className="stats">
+                <div className="stat">
+                  <h3>Files</h3>
+                  <strong>{rows.length}</strong>
+                </div>
+                <div className="stat">
+                  <h3>Items</h3>
+                  <strong>{rows.reduce((sum, row) => sum + row.items, 0)}</strong>
+                </div>
+                <div className="stat">
+                  <h3>Wrong Verdicts</h3>
+                  <strong>{rows.reduce((sum, row) => sum + row.wrongVerdicts, 0)}</strong>
+                </div>
+                <div className="stat">
+                  <h3>Total Errors</h3>
+                  <strong>{rows.reduce((sum, row) => sum + row.counts.error, 0)}</strong>
+                </div>
+              </div>
+              <div className="file-health" title="Files with errors / only warnings / clean">
+                <span className="file-health-error" style={{ flexGrow: filesWithErrors }} />
+                <span className="file-health-warn" style={{ flexGrow: filesWithWarnings }} />
+                <span className="file-health-ok" style={{ flexGrow: rows.length - filesWithErrors - filesWithWarnings }} />
+              </div>
+              <p className="justification">
+                {filesWithErrors} with errors · {filesWithWarnings} with warnings only ·{' '}
+                {rows.length - filesWithErrors - filesWithWarnings} clean
+              </p>
+            </div>
+
+            <div className="card">
+              <h3 style={{ marginTop: 0 }}>Most common issues</h3>
+              {!totals.length && <p className="justification">No findings in any file.</p>}
+              <div className="bar-chart">
+                {totals.slice(0, 10).map((total) => (
+                  <button
+                    key={total.ruleId}
+                    className={issue === total.ruleId ? 'bar-row bar-row-active' : 'bar-row'}
+                    onClick={() => setIssue((prev) => (prev === total.ruleId ? '' : total.ruleId))}
+                    title="Show only files with this issue"
+                  >
+                    <span className="bar-label">{RULE_TITLES.get(total.ruleId) ?? total.ruleId}</span>
+                    <span className="bar-track">
+                      <span className="bar" style={{ width: `${(total.findings / maxFindings) * 100}%` }} />
+                    </span>
+                    <span className="bar-value">
+                      {total.findings} in {total.files} {total.files === 1 ? 'file' : 'files'}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="card" style={{ marginTop: 18 }}>
+            <div className="controls" style={{ marginTop: 0 }}>
+              <input
+                className="select"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Filter by file name…"
+                aria-label="Filter by file name"
+              />
+              <select className="select" value={issue} onChange={(e) => setIssue(e.target.value)} aria-label="Filter by issue type">
+                <option value="">All files</option>
+                {totals.map((total) => (
+                  <option key={total.ruleId} value={total.ruleId}>
+                    {RULE_TITLES.get(total.ruleId) ?? total.ruleId} ({total.files})
+                  </option>
+                ))}
+              </select>
+              <span className="justification" style={{ alignSelf: 'center' }}>
+                {visible.length} of {rows.length} files
+              </span>
+            </div>
+            <table className="table">
+              <thead>
+                <tr>
+                  {COLUMNS.map((column) => (
+                    <th key={column.key} aria-sort={sort.key === column.key ? (sort.descending ? 'descending' : 'ascending') : undefined}>
+                      <button className="link-button" onClick={() => sortBy(column.key)}>
+                        {column.label}
+                        {sort.key === column.key ? (sort.descending ? ' ▾' : ' ▴') : ''}
+                      </button>
+                    </th>
+                  ))}
+                  {issue && <th>{RULE_TITLES.get(issue) ?? issue}</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((row) => (
+                  <tr key={row.path} className={row.error || row.counts.error ? 'row-error' : undefined}>
+                    <td>
+                      <button className="link-button" onClick={() => openInChecker(row)} title="Open in the checker">
+                        {row.path}
+                      </button>
+                      {row.error && <div style={{ color: 'var(--error)' }}>{row.error}</div>}
+                    </td>
+                    <td>{row.items}</td>
+                    <td>
+                      {formatScore(row.expectedTotal)}
+                      {row.possibleTotal !== undefined && ` / ${formatScore(row.possibleTotal)}`}
+                    </td>
+                    <td>{row.wrongVerdicts}</td>
+                    <td>{row.counts.error}</td>
+                    <td>{row.counts.warning}</td>
+                    <td>{row.counts.info}</td>
+                    {issue && <td>{row.rules[issue] ?? 0}</td>}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+'use client';
+
+import Link from 'next/link';
+import { useMemo } from 'react';
+import { agreementCsv, compareRubrics } from '../lib/agreement';
+import { formatScore } from '../lib/format';
+import { parseRubric } from '../lib/parseRubric';
+import { usePersistentState } from '../lib/usePersistentState';
+
+interface GraderInput {
+  name: string;
+  text: string;
+}
+
+const INITIAL: GraderInput[] = [
+  { name: 'Grader A', text: '' },
+  { name: 'Grader B', text: '' }
+];
+
+function percent(value?: number) {
+  return value === undefined ? '—' : `${(value * 100).toFixed(1)}%`;
+}
+
+function decimal(value?: number) {
+  return value === undefined ? '—' : value.toFixed(3);
+}
+
+function verdictBadge(verdict?: string) {
+  if (!verdict) return 'badge';
+  if (verdict.includes('WRONG')) return 'badge badge-error';
+  if (verdict === 'ACCEPTED') return 'badge badge-ok';
+  return 'badge';
+}
+
+export default function ComparePage() {
+  const [graders, setGraders] = usePersistentState<GraderInput[]>('rubric-checker:compare', INITIAL);
+
+  const report = useMemo(() => {
+    const filled = graders.filter((g) => g.text.trim());
+    if (filled.length < 2) return undefined;
+    return compareRubrics(filled.map((g, idx) => ({ name: g.name.trim() || `Grader ${idx + 1}`, parsed: parseRubric(g.text) })));
+  }, [graders]);
+
+  function update(index: number, patch: Partial<GraderInput>) {
+    setGraders((prev) => prev.map((g, idx) => (idx === index ? { ...g, ...patch } : g)));
+  }
+
+  async function load(index: number, file: File | undefined) {
+    if (!file) return;
+    update(index, { text: await file.text(), name: file.name.replace(/\.[^.]+$/, '') });
+  }
+
+  function exportCsv() {
+    if (!report) return;
+    const url = URL.createObjectURL(new Blob([agreementCsv(report)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'grader-agreement.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="container">
+      <header>
+        <h1>Grader Agreement</h1>
+        <p>
+          Paste two or more rubrics graded against the same response to see where the graders disagree.{' '}
+          <Link href="/">Back to the checker</Link>
+        </p>
+      </header>
+
+      <div className="compare-inputs">
+        {graders.map((grader, index) => (
+          <div className="card" key={index}>
+            <div className="controls" style={{ marginTop: 0, marginBottom: 8 }}>
+              <input
+                className="select"
+                value={grader.name}
+                onChange={(e) => update(index, { name: e.target.value })}
+                aria-label={`Name of grader ${index + 1}`}
+              />
+              <label className="button-secondary file-button">
+                Load…
+                <input type="file" accept=".txt,.json,.yaml,.yml,.csv" onChange={(e) => load(index, e.target.files?.[0])} hidden />
+              </label>
+              {graders.length > 2 && (
+                <button
+                  className="button-secondary"
+                  onClick={() => setGraders((prev) => prev.filter((_, idx) => idx !== index))}
+                >
+                  Remove
+                </button>
+              )}
+            </div>
+            <textarea
+              className="textarea"
+              style={{ minHeight: 200 }}
+              value={grader.text}
+              onChange={(e) => update(index, { text: e.target.value })}
+              placeholder="Paste this grader's rubric..."
+              spellCheck={false}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="controls">
+        <button
+          className="button-secondary"
+          onClick={() => setGraders((prev) => [...prev, { name: `Grader ${String.fromCharCode(65 + prev.length)}`, text: '' }])}
+        >
+          Add grader
+        </button>
+        <button onClick={exportCsv} disabled={!report}>
+          Export CSV
+        </button>
+      </div>
+
+      {!report ? (
+        <p style={{ color: 'var(--muted)', marginTop: 18 }}>Fill in at least two rubrics to compare them.</p>
+      ) : (
+        <>
+          <div className="card card-strong" style={{ marginTop: 18 }}>
+            <h3 style={{ marginTop: 0 }}>Agreement</h3>
+            <div className="stats">
+              <div className="stat">
+                <h3>Items Compared</h3>
+                <strong>{report.items}</strong>
+              </div>
+              <div className="stat">
+                <h3>Verdict Agreement</h3>
+                <strong>{percent(report.percentAgreement)}</strong>
+              </div>
+              {report.graders.length === 2 ? (
+                <div className="stat">
+                  <h3>Cohen&apos;s Kappa</h3>
+                  <strong>{decimal(report.cohensKappa)}</strong>
+                </div>
+              ) : (
+                <div className="stat">
+                  <h3>Fleiss&apos; Kappa</h3>
+                  <strong>{decimal(report.fleissKappa)}</strong>
+                </div>
+              )}
+              <div className="stat">
+                <h3>Mean |Score Diff|</h3>
+                <strong>{decimal(report.meanAbsoluteScoreDifference)}</strong>
+              </div>
+            </div>
+            <p className="justification" style={{ marginTop: 10 }}>
+              Statistics use leaf items that every grader gave a verdict; kappa is shown as — when every verdict falls in
+              one category.
+            </p>
+            {report.pairs.length > 1 && (
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Pair</th>
+                    <th>Items</th>
+                    <th>Agreement</th>
+                    <th>Cohen&apos;s kappa</th>
+                    <th>Mean |score diff|</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.pairs.map((pair) => (
+                    <tr key={`${pair.a}-${pair.b}`}>
+                      <td>
+                        {report.graders[pair.a]} vs {report.graders[pair.b]}
+                      </td>
+                      <td>{pair.items}</td>
+                      <td>{percent(pair.percentAgreement)}</td>
+                      <td>{decimal(pair.cohensKappa)}</td>
+                      <td>{decimal(pair.meanAbsoluteScoreDifference)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="card" style={{ marginTop: 18 }}>
+            <h3 style={{ marginTop: 0 }}>Items</h3>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Item</th>
+                  {report.graders.map((name, idx) => (
+                    <th key={idx}>{name}</th>
+                  ))}
+                  <th>Δ score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((row) => {
+                  const disagree = row.verdictsAgree === false || (row.scoreDelta ?? 0) > 0;
+                  return (
+                    <tr key={row.id} className={disagree ? 'row-disagree' : row.leaf ? undefined : 'tree-group'}>
+                      <td>
+                        <strong>{row.id}</strong>
+                      </td>
+                      {report.graders.map((_, idx) => (
+                        <td key={idx}>
+                          {row.scores[idx] === undefined && !row.verdicts[idx] ? (
+                            <span style={{ color: 'var(--muted)' }}>—</span>
+                          ) : (
+                            <>
+                              {formatScore(row.scores[idx])}{' '}
+                              {row.verdicts[idx] && <span className={verdictBadge(row.verdicts[idx])}>{row.verdicts[idx]}</span>}
+                            </>
+                          )}
+                        </td>
+                      ))}
+                      <td>{row.scoreDelta ? formatScore(row.scoreDelta) : row.scoreDelta === 0 ? '0' : '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+'use client';
+
+import { useState, type DragEvent } from 'react';
+import { isRubricFile, type BatchFile } from '../lib/batch';
+import { readZip } from '../lib/zip';
+
+interface BatchDropZoneProps {
+  onLoad: (files: BatchFile[], problems: string[]) => void;
+}
+
+interface PickedFile {
+  path: string;
+  file: File;
+}
+
+function readEntries(reader: FileSystemDirectoryReader) {
+  return new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+// Walks a dropped folder; readEntries hands back directory contents in batches.
+async function walkEntry(entry: FileSystemEntry, prefix: string): Promise<PickedFile[]> {
+  const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ path, file }];
+  }
+  if (!entry.isDirectory) return [];
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const found: PickedFile[] = [];
+  for (let batch = await readEntries(reader); batch.length; batch = await readEntries(reader)) {
+    for (const child of batch) found.push(...(await walkEntry(child, path)));
+  }
+  return found;
+}
+
+// Rubric files are read as text; .zip archives are opened and their rubric files read.
+async function loadFiles(picked: PickedFile[]) {
+  const files: BatchFile[] = [];
+  const problems: string[] = [];
+  const decoder = new TextDecoder();
+  for (const { path, file } of picked) {
+    try {
+      if (path.toLowerCase().endsWith('.zip')) {
+        const entries = await readZip(await file.arrayBuffer(), isRubricFile);
+        entries.forEach((entry) => files.push({ path: `${path}/${entry.path}`, text: decoder.decode(entry.data) }));
+        if (!entries.length) problems.push(`${path}: no rubric files (.txt, .json, .yaml, .yml, .csv) inside.`);
+      } else if (isRubricFile(path)) {
+        files.push({ path, text: await file.text() });
+      }
+    } catch (err) {
+      problems.push(`${path}: ${err instanceof Error ? err.message : 'could not be read.'}`);
+    }
+  }
+  return { files: files.sort((a, b) => a.path.localeCompare(b.path)), problems };
+}
+
+export default function BatchDropZone({ onLoad }: BatchDropZoneProps) {
+  const [active, setActive] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  async function load(collect: () => Promise<PickedFile[]>) {
+    setLoading(true);
+    try {
+      const { files, problems } = await loadFiles(await collect());
+      if (!files.length && !problems.length) problems.push('No rubric files (.txt, .json, .yaml, .yml, .csv) or .zip archives were found.');
+      onLoad(files, problems);
+    } catch (err) {
+      onLoad([], [err instanceof Error ? err.message : 'The dropped files could not be read.']);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function onDrop(e: DragEvent<HTMLDivElement>) {
+    e.preventDefault();
+    setActive(false);
+    // Entries must be taken from the event before anything is awaited.
+    const entries = Array.from(e.dataTransfer.items)
+      .map((item) => item.webkitGetAsEntry())
+      .filter((entry): entry is FileSystemEntry => !!entry);
+    const plain = Array.from(e.dataTransfer.files);
+    load(async () =>
+      entries.length
+        ? (await Promise.all(entries.map((entry) => walkEntry(entry, '')))).reduce((all, found) => all.concat(found), [])
+        : plain.map((file) => ({ path: file.name, file }))
+    );
+  }
+
+  function onPick(list: FileList | null) {
+    // Files from a folder picker carry their path inside the folder.
+    const picked = Array.from(list ?? []).map((file) => ({ path: file.webkitRelativePath || file.name, file }));
+    if (picked.length) load(async () => picked);
+  }
+
+  return (
+    <div
+      className={active ? 'drop-zone drop-zone-active' : 'drop-zone'}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setActive(true);
+      }}
+      onDragLeave={() => setActive(false)}
+      onDrop={onDrop}
+    >
+      <p>{loading ? 'Reading files…' : 'Drop a folder, a .zip or rubric files here'}</p>
+      <div className="controls" style={{ justifyContent: 'center' }}>
+        <label className="button-secondary file-button">
+          Choose folder…
+          <input
+            type="file"
+            hidden
+            multiple
+            ref={(input) => input?.setAttribute('webkitdirectory', '')}
+            onChange={(e) => onPick(e.target.files)}
+          />
+        </label>
+        <label className="button-secondary file-button">
+          Choose files…
+          <input type="file" hidden multiple accept=".zip,.txt,.json,.yaml,.yml,.csv" onChange={(e) => onPick(e.target.files)} />
+        </label>
+      </div>
+    </div>
+  );
+}
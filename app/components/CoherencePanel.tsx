@@ -0,0 +1,67 @@
+'use client';
+
+import { DEFAULT_COHERENCE, type CoherenceSettings, type PartialCreditPolicy } from '../lib/coherence';
+
+interface CoherencePanelProps {
+  settings: CoherenceSettings;
+  onChange: (settings: CoherenceSettings) => void;
+}
+
+function phraseLines(text: string) {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export default function CoherencePanel({ settings, onChange }: CoherencePanelProps) {
+  return (
+    <details className="settings">
+      <summary>Score &amp; verdict coherence</summary>
+      <p className="justification" style={{ margin: '8px 0' }}>
+        Flags WRONG_ANSWER items that still score, ACCEPTED items below the template max, and justifications whose
+        wording argues against the verdict. Phrases are matched whole-word, one per line.
+      </p>
+      <label className="coherence-policy">
+        <span>Partial credit on WRONG_ANSWER</span>
+        <select
+          className="select"
+          value={settings.partialCredit}
+          onChange={(e) => onChange({ ...settings, partialCredit: e.target.value as PartialCreditPolicy })}
+        >
+          <option value="none">Not allowed (score must be 0)</option>
+          <option value="below-max">Allowed below the template max</option>
+        </select>
+      </label>
+      <div className="coherence-lexicon">
+        <label>
+          <span>Contradicts WRONG_ANSWER</span>
+          <textarea
+            className="textarea"
+            style={{ minHeight: 120 }}
+            defaultValue={settings.positivePhrases.join('\n')}
+            key={settings.positivePhrases.join('\n')}
+            onBlur={(e) => onChange({ ...settings, positivePhrases: phraseLines(e.target.value) })}
+            spellCheck={false}
+          />
+        </label>
+        <label>
+          <span>Contradicts ACCEPTED</span>
+          <textarea
+            className="textarea"
+            style={{ minHeight: 120 }}
+            defaultValue={settings.negativePhrases.join('\n')}
+            key={settings.negativePhrases.join('\n')}
+            onBlur={(e) => onChange({ ...settings, negativePhrases: phraseLines(e.target.value) })}
+            spellCheck={false}
+          />
+        </label>
+      </div>
+      <div className="controls">
+        <button className="button-secondary" onClick={() => onChange(DEFAULT_COHERENCE)}>
+          Reset to defaults
+        </button>
+      </div>
+    </details>
+  );
+}
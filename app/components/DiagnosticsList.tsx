@@ -0,0 +1,57 @@
+'use client';
+
+import type { Diagnostic, RubricRule, Severity } from '../lib/diagnostics';
+import { formatRange, type SourceRange } from '../lib/sourceRange';
+
+const SEVERITY_BADGE: Record<Severity, string> = {
+  error: 'badge badge-error',
+  warning: 'badge badge-warn',
+  info: 'badge'
+};
+
+interface DiagnosticsListProps {
+  diagnostics: Diagnostic[];
+  rules: Pick<RubricRule, 'id' | 'title'>[]; // group order and titles
+  onSelect?: (range: SourceRange) => void;
+  heading?: string;
+}
+
+export default function DiagnosticsList({
+  diagnostics,
+  rules,
+  onSelect,
+  heading = 'Formatting issues found:'
+}: DiagnosticsListProps) {
+  if (!diagnostics.length) return null;
+
+  // Group by rule, keeping the registry order so the list is stable between edits.
+  const groups = rules
+    .map((rule) => ({ rule, items: diagnostics.filter((d) => d.ruleId === rule.id) }))
+    .filter((g) => g.items.length > 0);
+
+  return (
+    <div className="card alert-card">
+      <strong>{heading}</strong>
+      <ul className="issues">
+        {groups.map(({ rule, items }) => (
+          <li key={rule.id}>
+            <span className={SEVERITY_BADGE[items[0].severity]}>{items[0].severity}</span> {rule.title} ({items.length})
+            <ul className="issues">
+              {items.map((d, idx) => (
+                <li key={`${rule.id}-${idx}`}>
+                  {d.range && onSelect ? (
+                    <button className="diagnostic-link" onClick={() => d.range && onSelect(d.range)}>
+                      <span className="code-chip">{formatRange(d.range)}</span>{' '}
+                    </button>
+                  ) : null}
+                  {d.itemId ? <strong>{d.itemId}: </strong> : null}
+                  {d.message}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
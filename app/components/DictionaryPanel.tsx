@@ -0,0 +1,33 @@
+'use client';
+
+import { DEFAULT_DICTIONARY } from '../lib/spellcheck';
+
+interface DictionaryPanelProps {
+  text: string; // one term per line
+  onChange: (text: string) => void;
+  terms: number;
+}
+
+export default function DictionaryPanel({ text, onChange, terms }: DictionaryPanelProps) {
+  return (
+    <details className="settings">
+      <summary>Team dictionary ({terms} terms)</summary>
+      <p className="justification" style={{ margin: '8px 0' }}>
+        Words the offline spell checker should accept, one per line (case-insensitive). LanguageTool matches on these
+        words are hidden too.
+      </p>
+      <textarea
+        className="textarea"
+        style={{ minHeight: 140 }}
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        spellCheck={false}
+      />
+      <div className="controls">
+        <button className="button-secondary" onClick={() => onChange(DEFAULT_DICTIONARY.join('\n'))}>
+          Reset to defaults
+        </button>
+      </div>
+    </details>
+  );
+}
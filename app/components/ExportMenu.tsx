@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import { reportCsv, reportHtml, reportJson, reportMarkdown } from '../lib/exportReport';
+import type { RubricReport } from '../lib/report';
+
+interface ExportMenuProps {
+  buildReport: () => RubricReport; // called on demand, so the report reflects the latest checks
+  disabled?: boolean;
+}
+
+const BASENAME = 'rubric-review';
+
+function download(content: string, type: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function ExportMenu({ buildReport, disabled }: ExportMenuProps) {
+  const [status, setStatus] = useState<string | null>(null);
+
+  async function copyMarkdown() {
+    try {
+      await navigator.clipboard.writeText(reportMarkdown(buildReport()));
+      setStatus('Markdown summary copied.');
+    } catch {
+      setStatus('The browser did not allow copying; download the Markdown file instead.');
+    }
+  }
+
+  function exportAs(kind: 'md' | 'csv' | 'json' | 'html') {
+    const report = buildReport();
+    if (kind === 'md') download(reportMarkdown(report), 'text/markdown', `${BASENAME}.md`);
+    if (kind === 'csv') download(reportCsv(report), 'text/csv', `${BASENAME}.csv`);
+    if (kind === 'json') download(reportJson(report), 'application/json', `${BASENAME}.json`);
+    if (kind === 'html') download(reportHtml(report, { generatedAt: new Date() }), 'text/html', `${BASENAME}.html`);
+    setStatus(null);
+  }
+
+  return (
+    <details className="settings export-menu">
+      <summary>Export report</summary>
+      <p className="justification" style={{ margin: '8px 0' }}>
+        Built in the browser from the current checks: rubric findings, visible grammar flags and response issues.
+      </p>
+      <div className="controls" style={{ marginTop: 0 }}>
+        <button onClick={copyMarkdown} disabled={disabled}>
+          Copy Markdown
+        </button>
+        <button className="button-secondary" onClick={() => exportAs('md')} disabled={disabled}>
+          Markdown
+        </button>
+        <button className="button-secondary" onClick={() => exportAs('csv')} disabled={disabled}>
+          CSV
+        </button>
+        <button className="button-secondary" onClick={() => exportAs('json')} disabled={disabled}>
+          JSON
+        </button>
+        <button className="button-secondary" onClick={() => exportAs('html')} disabled={disabled}>
+          Printable HTML
+        </button>
+      </div>
+      {status && <p className="justification">{status}</p>}
+    </details>
+  );
+}
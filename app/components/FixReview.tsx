@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import type { Diagnostic, RubricRule } from '../lib/diagnostics';
+import { applyEdits, type TextEdit } from '../lib/serialize';
+import { formatRange } from '../lib/sourceRange';
+
+interface FixReviewProps {
+  raw: string;
+  diagnostics: Diagnostic[];
+  rules: RubricRule[];
+  onApply: (text: string) => void;
+  onClose: () => void;
+}
+
+function fixKey(d: Diagnostic) {
+  const edits = d.fix?.edits ?? [];
+  return `${d.ruleId}:${edits.map((e) => `${e.start}-${e.end}`).join(',')}`;
+}
+
+// The lines an edit set touches, before and after, with the changed spans marked.
+function DiffLines({ raw, edits }: { raw: string; edits: TextEdit[] }) {
+  const sorted = edits.slice().sort((a, b) => a.start - b.start);
+  const from = raw.lastIndexOf('\n', sorted[0].start - 1) + 1;
+  const lastEnd = sorted[sorted.length - 1].end;
+  const newline = raw.indexOf('\n', lastEnd);
+  const to = newline === -1 ? raw.length : newline;
+
+  const before: JSX.Element[] = [];
+  const after: JSX.Element[] = [];
+  let cursor = from;
+  sorted.forEach((edit, idx) => {
+    const same = raw.slice(cursor, edit.start);
+    before.push(<span key={`b${idx}`}>{same}</span>, <del key={`d${idx}`}>{raw.slice(edit.start, edit.end)}</del>);
+    after.push(<span key={`a${idx}`}>{same}</span>, <ins key={`i${idx}`}>{edit.text}</ins>);
+    cursor = edit.end;
+  });
+  before.push(<span key="b-end">{raw.slice(cursor, to)}</span>);
+  after.push(<span key="a-end">{raw.slice(cursor, to)}</span>);
+
+  return (
+    <div className="diff">
+      <pre className="diff-before">{before}</pre>
+      <pre className="diff-after">{after}</pre>
+    </div>
+  );
+}
+
+export default function FixReview({ raw, diagnostics, rules, onApply, onClose }: FixReviewProps) {
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+  const fixable = diagnostics.filter((d) => d.fix && d.fix.edits.length);
+  const accepted = fixable.filter((d) => !rejected.has(fixKey(d)));
+
+  function toggle(key: string) {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }
+
+  function apply() {
+    // Diagnostics come in rule order, so where two fixes touch the same text the earlier rule wins.
+    const edits = accepted.reduce<TextEdit[]>((acc, d) => acc.concat(d.fix?.edits ?? []), []);
+    onApply(applyEdits(raw, edits));
+  }
+
+  return (
+    <div className="card fix-review">
+      <div className="fix-review-header">
+        <strong>Review fixes ({accepted.length} of {fixable.length} accepted)</strong>
+        <div className="controls" style={{ marginTop: 0 }}>
+          <button className="button-secondary" onClick={() => setRejected(new Set())}>
+            Accept all
+          </button>
+          <button className="button-secondary" onClick={() => setRejected(new Set(fixable.map(fixKey)))}>
+            Reject all
+          </button>
+          <button onClick={apply} disabled={!accepted.length}>
+            Apply {accepted.length} change{accepted.length === 1 ? '' : 's'}
+          </button>
+          <button className="button-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+      {!fixable.length && <p style={{ marginTop: 10 }}>Nothing to fix automatically.</p>}
+      <ul className="fix-list">
+        {fixable.map((d) => {
+          const key = fixKey(d);
+          const rule = rules.find((r) => r.id === d.ruleId);
+          return (
+            <li key={key} className={rejected.has(key) ? 'fix-rejected' : undefined}>
+              <label className="fix-label">
+                <input type="checkbox" checked={!rejected.has(key)} onChange={() => toggle(key)} />
+                <span>
+                  {d.range && <span className="code-chip">{formatRange(d.range)}</span>} <strong>{d.fix?.description}</strong>
+                  <span className="justification"> · {rule?.title ?? d.ruleId}{d.itemId ? ` · ${d.itemId}` : ''}</span>
+                </span>
+              </label>
+              <DiffLines raw={raw} edits={d.fix?.edits ?? []} />
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
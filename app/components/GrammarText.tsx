@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { flaggedText, type GrammarIssue } from '../lib/grammar';
+
+interface GrammarTextProps {
+  text: string;
+  issues: GrammarIssue[]; // already filtered for ignores
+  onApply: (issue: GrammarIssue, replacement: string) => void;
+  onIgnoreWord: (word: string) => void;
+  onIgnoreRule: (ruleId: string) => void;
+  onAddToDictionary: (word: string) => void;
+}
+
+// A justification with its grammar issues underlined; clicking one opens its suggestions.
+export default function GrammarText({ text, issues, onApply, onIgnoreWord, onIgnoreRule, onAddToDictionary }: GrammarTextProps) {
+  const [open, setOpen] = useState<GrammarIssue | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    function close(event: MouseEvent | KeyboardEvent) {
+      if (event instanceof KeyboardEvent ? event.key === 'Escape' : !rootRef.current?.contains(event.target as Node)) {
+        setOpen(null);
+      }
+    }
+    document.addEventListener('mousedown', close);
+    document.addEventListener('keydown', close);
+    return () => {
+      document.removeEventListener('mousedown', close);
+      document.removeEventListener('keydown', close);
+    };
+  }, [open]);
+
+  // Overlapping matches would nest marks; the first one wins.
+  const shown: GrammarIssue[] = [];
+  issues
+    .slice()
+    .sort((a, b) => a.offset - b.offset)
+    .forEach((issue) => {
+      const last = shown[shown.length - 1];
+      if (!last || issue.offset >= last.offset + last.length) shown.push(issue);
+    });
+
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+  shown.forEach((issue, idx) => {
+    parts.push(<span key={`t${idx}`}>{text.slice(cursor, issue.offset)}</span>);
+    const word = flaggedText(text, issue);
+    parts.push(
+      <span key={`m${idx}`} className="grammar-anchor">
+        <button
+          type="button"
+          className="grammar-mark"
+          title={issue.message}
+          aria-expanded={open === issue}
+          onClick={() => setOpen(open === issue ? null : issue)}
+        >
+          {word || ' '}
+        </button>
+        {open === issue && (
+          <span className="grammar-popover" role="dialog">
+            <span className="grammar-popover-message">{issue.message}</span>
+            {issue.replacements.length > 0 && (
+              <span className="grammar-suggestions">
+                {issue.replacements.slice(0, 5).map((replacement) => (
+                  <button
+                    key={replacement}
+                    type="button"
+                    className="button-secondary"
+                    onClick={() => {
+                      setOpen(null);
+                      onApply(issue, replacement);
+                    }}
+                  >
+                    {replacement || '(remove)'}
+                  </button>
+                ))}
+              </span>
+            )}
+            <span className="grammar-actions">
+              <button
+                type="button"
+                className="link-button"
+                onClick={() => {
+                  setOpen(null);
+                  onIgnoreWord(word);
+                }}
+              >
+                Ignore “{word}”
+              </button>
+              <button
+                type="button"
+                className="link-button"
+                onClick={() => {
+                  setOpen(null);
+                  onAddToDictionary(word);
+                }}
+              >
+                Add to dictionary
+              </button>
+              {issue.ruleId && (
+                <button
+                  type="button"
+                  className="link-button"
+                  onClick={() => {
+                    setOpen(null);
+                    onIgnoreRule(issue.ruleId as string);
+                  }}
+                >
+                  Ignore rule {issue.ruleId}
+                </button>
+              )}
+            </span>
+          </span>
+        )}
+      </span>
+    );
+    cursor = issue.offset + issue.length;
+  });
+  parts.push(<span key="end">{text.slice(cursor)}</span>);
+
+  return (
+    <div className="justification" ref={rootRef}>
+      {parts}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import type { GrammarIgnores } from '../lib/grammar';
+
+interface IgnoredIssuesProps {
+  ignores: GrammarIgnores;
+  onChange: (ignores: GrammarIgnores) => void;
+}
+
+// Lists ignored grammar rules and words so they can be brought back.
+export default function IgnoredIssues({ ignores, onChange }: IgnoredIssuesProps) {
+  const count = ignores.rules.length + ignores.words.length;
+  if (!count) return null;
+
+  return (
+    <details className="settings">
+      <summary>Ignored grammar issues ({count})</summary>
+      <ul className="ignore-list">
+        {ignores.rules.map((rule) => (
+          <li key={`rule-${rule}`}>
+            <span className="code-chip">{rule}</span>
+            <button
+              type="button"
+              className="link-button"
+              onClick={() => onChange({ ...ignores, rules: ignores.rules.filter((r) => r !== rule) })}
+            >
+              Stop ignoring
+            </button>
+          </li>
+        ))}
+        {ignores.words.map((word) => (
+          <li key={`word-${word}`}>
+            “{word}”
+            <button
+              type="button"
+              className="link-button"
+              onClick={() => onChange({ ...ignores, words: ignores.words.filter((w) => w !== word) })}
+            >
+              Stop ignoring
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button type="button" className="button-secondary" onClick={() => onChange({ rules: [], words: [] })}>
+        Clear all
+      </button>
+    </details>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { FORMAT_LABELS, type RubricFormat } from '../lib/formats';
+import {
+  addItem,
+  duplicateItem,
+  moveItem,
+  removeItem,
+  serializeRubric,
+  updateItem,
+  type ItemFields
+} from '../lib/itemEditor';
+import { buildItemTree, walkTree, type RubricNode } from '../lib/itemTree';
+import type { RubricEntry } from '../lib/parseRubric';
+import { ALLOWED_VERDICTS } from '../lib/rules';
+
+interface ItemEditorProps {
+  raw: string;
+  entries: RubricEntry[];
+  format: RubricFormat;
+  onChange: (text: string) => void;
+}
+
+const VERDICTS = Array.from(ALLOWED_VERDICTS);
+
+// A form over the parsed items. Edits are written back to the rubric text in the canonical
+// key: value layout; edits made in the text show up here.
+export default function ItemEditor({ raw, entries, format, onChange }: ItemEditorProps) {
+  const [items, setItems] = useState(entries);
+  // The text this form wrote last. Re-parsing it would drop what is mid-typing (a trailing
+  // space, an empty score), so the form keeps its own copy until the text changes elsewhere.
+  const written = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (raw !== written.current) setItems(entries);
+  }, [raw, entries]);
+
+  const rows = useMemo(() => {
+    const list: RubricNode[] = [];
+    walkTree(buildItemTree(items), (node) => list.push(node));
+    return list;
+  }, [items]);
+
+  function commit(next: RubricEntry[]) {
+    const text = serializeRubric(next);
+    written.current = text;
+    setItems(next);
+    onChange(text);
+  }
+
+  function update(id: string, fields: ItemFields) {
+    commit(updateItem(items, id, fields));
+  }
+
+  return (
+    <details className="settings">
+      <summary>Edit items ({entries.length})</summary>
+      <p className="justification">
+        Sub-items are renumbered when you add, remove, copy or move one, and parent scores are the sum of their
+        sub-items. Changes here rewrite the rubric text as <code>key: value</code> lines in the usual order
+        {format === 'kv' ? '; comments are dropped.' : `, replacing the ${FORMAT_LABELS[format]} text.`}
+      </p>
+      <table className="table item-editor">
+        <thead>
+          <tr>
+            <th style={{ width: '14%' }}>Item</th>
+            <th style={{ width: '10%' }}>Score</th>
+            <th style={{ width: '16%' }}>Verdict</th>
+            <th>Justification</th>
+            <th style={{ width: '1%' }} aria-label="Actions" />
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((node) => {
+            const entry = node.entry;
+            const parent = node.children.length > 0;
+            const verdict = entry?.verdict ?? '';
+            return (
+              <tr key={node.id} className={parent ? 'tree-group' : undefined}>
+                <td>
+                  <strong style={{ paddingLeft: node.depth * 16 }}>{node.id}</strong>
+                </td>
+                <td>
+                  {entry && (!parent || entry.score !== undefined) && (
+                    <input
+                      className="select"
+                      type="number"
+                      step="any"
+                      value={entry.score ?? ''}
+                      readOnly={parent}
+                      title={parent ? 'Sum of sub-items' : undefined}
+                      onChange={(e) => update(node.id, { score: e.target.value === '' ? undefined : Number(e.target.value) })}
+                      aria-label={`${node.id} score`}
+                    />
+                  )}
+                </td>
+                <td>
+                  {entry && (
+                    <select
+                      className="select"
+                      value={verdict}
+                      onChange={(e) => update(node.id, { verdict: e.target.value || undefined })}
+                      aria-label={`${node.id} verdict`}
+                    >
+                      <option value="">—</option>
+                      {VERDICTS.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                      {verdict && !ALLOWED_VERDICTS.has(verdict) && <option value={verdict}>{verdict} (not allowed)</option>}
+                    </select>
+                  )}
+                </td>
+                <td>
+                  {entry && (
+                    <textarea
+                      className="textarea"
+                      rows={2}
+                      value={entry.justification ?? ''}
+                      onChange={(e) => update(node.id, { justification: e.target.value })}
+                      aria-label={`${node.id} justification`}
+                    />
+                  )}
+                </td>
+                <td>
+                  <div className="item-actions">
+                    <button className="link-button" onClick={() => commit(moveItem(items, node.id, -1))} title="Move up">
+                      ↑
+                    </button>
+                    <button className="link-button" onClick={() => commit(moveItem(items, node.id, 1))} title="Move down">
+                      ↓
+                    </button>
+                    <button className="link-button" onClick={() => commit(duplicateItem(items, node.id))}>
+                      Copy
+                    </button>
+                    <button className="link-button" onClick={() => commit(addItem(items, node.id))}>
+                      Add sub-item
+                    </button>
+                    <button className="link-button" onClick={() => commit(removeItem(items, node.id))}>
+                      Delete
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="controls">
+        <button className="button-secondary" onClick={() => commit(addItem(items))}>
+          Add question
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { forwardRef, useImperativeHandle, useRef, type ReactNode } from 'react';
+import ReactMarkdown from 'react-markdown';
+import rehypeKatex from 'rehype-katex';
+import remarkMath from 'remark-math';
+
+export interface MarkdownPreviewHandle {
+  revealLine: (line: number) => void; // 1-based line of the Markdown source
+}
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  position?: { start: { line: number } };
+  children?: HastNode[];
+}
+
+const BLOCK_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'p', 'li', 'pre', 'table', 'blockquote', 'img']);
+
+// Tags rendered blocks with the source line they came from, so the preview can scroll to a line.
+function rehypeSourceLines() {
+  return (tree: HastNode) => {
+    const visit = (node: HastNode) => {
+      if (node.type === 'element' && node.tagName && BLOCK_TAGS.has(node.tagName) && node.position) {
+        node.properties = { ...node.properties, dataSourceLine: node.position.start.line };
+      }
+      node.children?.forEach(visit);
+    };
+    visit(tree);
+  };
+}
+
+interface MarkdownPreviewProps {
+  source: string;
+  blockNotes?: Record<number, ReactNode>; // shown under the code block whose fence is on that source line
+}
+
+const MarkdownPreview = forwardRef<MarkdownPreviewHandle, MarkdownPreviewProps>(function MarkdownPreview(
+  { source, blockNotes = {} },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useImperativeHandle(ref, () => ({
+    revealLine(line: number) {
+      const blocks = Array.from(containerRef.current?.querySelectorAll<HTMLElement>('[data-source-line]') ?? []);
+      // The last block starting at or before the line contains it.
+      const target = blocks.reduce<HTMLElement | undefined>(
+        (best, el) => (Number(el.dataset.sourceLine) <= line ? el : best),
+        undefined
+      );
+      if (!target) return;
+      target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      target.classList.remove('preview-flash');
+      // Restart the highlight animation when the same block is revealed twice.
+      void target.offsetWidth;
+      target.classList.add('preview-flash');
+    }
+  }));
+
+  return (
+    <div ref={containerRef}>
+      <ReactMarkdown
+        className="markdown"
+        remarkPlugins={[remarkMath]}
+        rehypePlugins={[rehypeKatex, rehypeSourceLines]}
+        components={{
+          pre: ({ node, ...props }) => {
+            const line = node?.position?.start.line;
+            return (
+              <>
+                <pre {...props} />
+                {line !== undefined && blockNotes[line]}
+              </>
+            );
+          }
+        }}
+      >
+        {source || '_Nothing to preview_'}
+      </ReactMarkdown>
+    </div>
+  );
+});
+
+export default MarkdownPreview;
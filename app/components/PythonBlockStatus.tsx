@@ -0,0 +1,46 @@
+'use client';
+
+import type { PythonBlockResult } from '../lib/pythonCheck';
+
+interface PythonBlockStatusProps {
+  result: PythonBlockResult;
+  fenceLine: number; // response line of the opening fence, to turn block lines into response lines
+}
+
+const KIND_LABELS = {
+  syntax: 'Syntax error',
+  runtime: 'Failed to run',
+  timeout: 'Timed out',
+  memory: 'Out of memory'
+};
+
+export default function PythonBlockStatus({ result, fenceLine }: PythonBlockStatusProps) {
+  const { error } = result;
+  const output = [result.stdout, result.stderr].filter(Boolean).join('\n');
+
+  return (
+    <div className={`python-status ${result.ok ? 'python-status-ok' : 'python-status-error'}`}>
+      {error ? (
+        <div>
+          <strong>{KIND_LABELS[error.kind]}</strong>
+          {error.line !== undefined && (
+            <>
+              {' '}
+              at line {error.line}
+              {error.column !== undefined ? `:${error.column}` : ''} (response line {fenceLine + error.line})
+            </>
+          )}
+          : <span className="code-chip">{error.message}</span>
+        </div>
+      ) : (
+        <strong>{result.executed ? `Ran without errors (${result.durationMs} ms)` : 'Compiles'}</strong>
+      )}
+      {output && (
+        <details>
+          <summary>Output</summary>
+          <pre className="python-output">{output}</pre>
+        </details>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import type { Diagnostic, Severity } from '../lib/diagnostics';
+import type { SourceRange } from '../lib/sourceRange';
+
+// Must match `.editor` line-height in globals.css; used to scroll a line into view.
+const LINE_HEIGHT = 20;
+
+const SEVERITY_RANK: Record<Severity, number> = { error: 0, warning: 1, info: 2 };
+
+export interface RubricEditorHandle {
+  reveal: (range: SourceRange) => void;
+}
+
+interface RubricEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  diagnostics: Diagnostic[];
+}
+
+const RubricEditor = forwardRef<RubricEditorHandle, RubricEditorProps>(function RubricEditor(
+  { value, onChange, diagnostics },
+  ref
+) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [hoverLine, setHoverLine] = useState<number | null>(null);
+
+  const lines = useMemo(() => value.split(/\r?\n/), [value]);
+
+  const byLine = useMemo(() => {
+    const map = new Map<number, Diagnostic[]>();
+    diagnostics.forEach((d) => {
+      if (!d.range) return;
+      for (let line = d.range.line; line <= (d.range.endLine ?? d.range.line); line++) {
+        const arr = map.get(line) ?? [];
+        arr.push(d);
+        map.set(line, arr);
+      }
+    });
+    return map;
+  }, [diagnostics]);
+
+  useImperativeHandle(ref, () => ({
+    reveal(range: SourceRange) {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      textarea.focus();
+      textarea.setSelectionRange(range.startOffset, range.endOffset);
+      textarea.scrollTop = Math.max(0, (range.line - 3) * LINE_HEIGHT);
+    }
+  }));
+
+  function messagesFor(line: number | null) {
+    if (line === null) return undefined;
+    return byLine.get(line)?.map((d) => d.message).join('\n');
+  }
+
+  function lineSeverity(line: number): Severity | undefined {
+    const found = byLine.get(line);
+    if (!found) return undefined;
+    return found.reduce<Severity>(
+      (worst, d) => (SEVERITY_RANK[d.severity] < SEVERITY_RANK[worst] ? d.severity : worst),
+      'info'
+    );
+  }
+
+  return (
+    <div className="editor">
+      <div className="editor-gutter" aria-hidden="true">
+        <div style={{ transform: `translateY(${-scroll.top}px)` }}>
+          {lines.map((_, idx) => {
+            const lineNumber = idx + 1;
+            const severity = lineSeverity(lineNumber);
+            return (
+              <div
+                key={lineNumber}
+                className={severity ? `editor-line-number editor-mark-${severity}` : 'editor-line-number'}
+                title={messagesFor(lineNumber)}
+              >
+                {lineNumber}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div className="editor-body">
+        <div className="editor-highlights" aria-hidden="true">
+          <div style={{ transform: `translate(${-scroll.left}px, ${-scroll.top}px)` }}>
+            {lines.map((line, idx) => {
+              const severity = lineSeverity(idx + 1);
+              return (
+                <div key={idx} className={severity ? `editor-highlight editor-highlight-${severity}` : 'editor-highlight'}>
+                  {line || ' '}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        <textarea
+          ref={textareaRef}
+          className="editor-input"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onScroll={(e) => setScroll({ top: e.currentTarget.scrollTop, left: e.currentTarget.scrollLeft })}
+          onMouseMove={(e) => {
+            const box = e.currentTarget.getBoundingClientRect();
+            const styles = window.getComputedStyle(e.currentTarget);
+            const y = e.clientY - box.top - parseFloat(styles.paddingTop) + e.currentTarget.scrollTop;
+            setHoverLine(Math.floor(y / LINE_HEIGHT) + 1);
+          }}
+          onMouseLeave={() => setHoverLine(null)}
+          title={messagesFor(hoverLine)}
+          spellCheck={false}
+          wrap="off"
+        />
+      </div>
+    </div>
+  );
+});
+
+export default RubricEditor;
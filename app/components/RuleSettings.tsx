@@ -0,0 +1,73 @@
+'use client';
+
+import {
+  SEVERITIES,
+  effectiveSeverity,
+  isRuleEnabled,
+  type RubricRule,
+  type RuleConfig,
+  type Severity
+} from '../lib/diagnostics';
+
+interface RuleSettingsProps {
+  rules: RubricRule[];
+  config: RuleConfig;
+  onChange: (config: RuleConfig) => void;
+}
+
+export default function RuleSettings({ rules, config, onChange }: RuleSettingsProps) {
+  function update(ruleId: string, patch: { enabled?: boolean; severity?: Severity }) {
+    onChange({ ...config, [ruleId]: { ...config[ruleId], ...patch } });
+  }
+
+  return (
+    <details className="settings">
+      <summary>Check settings</summary>
+      <table className="table">
+        <thead>
+          <tr>
+            <th style={{ width: '8%' }}>On</th>
+            <th>Rule</th>
+            <th style={{ width: '18%' }}>Severity</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.map((rule) => (
+            <tr key={rule.id}>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={isRuleEnabled(rule, config)}
+                  onChange={(e) => update(rule.id, { enabled: e.target.checked })}
+                  aria-label={`Enable ${rule.title}`}
+                />
+              </td>
+              <td>
+                <strong>{rule.title}</strong> <span className="code-chip">{rule.id}</span>
+                <div className="justification">{rule.description}</div>
+              </td>
+              <td>
+                <select
+                  className="select"
+                  value={effectiveSeverity(rule, config)}
+                  onChange={(e) => update(rule.id, { severity: e.target.value as Severity })}
+                >
+                  {SEVERITIES.map((s) => (
+                    <option key={s} value={s}>
+                      {s}
+                    </option>
+                  ))}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="controls">
+        <button className="button-secondary" onClick={() => onChange({})}>
+          Reset to defaults
+        </button>
+      </div>
+    </details>
+  );
+}
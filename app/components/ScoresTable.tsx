@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import { formatScore } from '../lib/format';
+import { visibleIssues, type CheckedText, type GrammarIgnores, type GrammarIssue } from '../lib/grammar';
+import { computedSubtotal, isLeaf, type RubricNode } from '../lib/itemTree';
+import GrammarText from './GrammarText';
+
+interface ScoresTableProps {
+  tree: RubricNode[];
+  grammarResults: Record<string, CheckedText>;
+  spellingResults: Record<string, GrammarIssue[]>; // offline spell checker, always current
+  ignores: GrammarIgnores;
+  onApplyGrammar: (itemId: string, issue: GrammarIssue, replacement: string) => void;
+  onIgnoreWord: (word: string) => void;
+  onIgnoreRule: (ruleId: string) => void;
+  onAddToDictionary: (word: string) => void;
+  sectionLinks?: Record<string, { number: string; line: number }[]>; // response sections each justification mentions
+  onRevealSection?: (line: number) => void;
+}
+
+function verdictBadge(verdict: string) {
+  if (verdict.includes('WRONG')) return 'badge badge-error';
+  if (verdict.includes('CORRECT')) return 'badge badge-ok';
+  return 'badge';
+}
+
+export default function ScoresTable({
+  tree,
+  grammarResults,
+  spellingResults,
+  ignores,
+  onApplyGrammar,
+  onIgnoreWord,
+  onIgnoreRule,
+  onAddToDictionary,
+  sectionLinks = {},
+  onRevealSection
+}: ScoresTableProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  function toggle(id: string) {
+    setCollapsed((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  const rows: RubricNode[] = [];
+  function collect(nodes: RubricNode[]) {
+    nodes.forEach((node) => {
+      rows.push(node);
+      if (!collapsed.has(node.id)) collect(node.children);
+    });
+  }
+  collect(tree);
+
+  return (
+    <table className="table">
+      <thead>
+        <tr>
+          <th style={{ width: '18%' }}>Item</th>
+          <th style={{ width: '10%' }}>Score</th>
+          <th style={{ width: '16%' }}>Verdict</th>
+          <th>Justification</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((node) => {
+          const entry = node.entry;
+          const leaf = isLeaf(node);
+          const verdict = (entry?.verdict ?? '').toUpperCase();
+          const checked = grammarResults[node.id];
+          // LanguageTool offsets only hold for the text that was checked; spelling issues are always current.
+          const { status, issues } = visibleIssues(entry?.justification, checked, spellingResults[node.id], ignores);
+          const count = issues ? (issues.length === 0 ? 'Clean' : `${issues.length} issue${issues.length > 1 ? 's' : ''}`) : '';
+          const badgeLabel =
+            status === 'failed'
+              ? `Check failed${count ? ` · ${count}` : ''}`
+              : status === 'stale'
+                ? `Changed since check${count ? ` · ${count}` : ''}`
+                : count || 'Not checked';
+          const badgeClass =
+            status === 'failed' ? 'badge-error' : issues ? (issues.length === 0 ? 'badge-ok' : 'badge-warn') : 'badge';
+          const badgeTitle =
+            status === 'failed' ? checked?.error : status === 'checked' ? 'LanguageTool and spelling' : issues ? 'Spelling only' : undefined;
+
+          return (
+            <tr key={node.id} className={leaf ? undefined : 'tree-group'}>
+              <td>
+                <div className="tree-cell" style={{ paddingLeft: node.depth * 16 }}>
+                  {leaf ? (
+                    <span className="tree-toggle" />
+                  ) : (
+                    <button
+                      className="tree-toggle"
+                      onClick={() => toggle(node.id)}
+                      aria-expanded={!collapsed.has(node.id)}
+                      aria-label={`${collapsed.has(node.id) ? 'Expand' : 'Collapse'} ${node.id}`}
+                    >
+                      {collapsed.has(node.id) ? '▸' : '▾'}
+                    </button>
+                  )}
+                  <strong>{node.id}</strong>
+                </div>
+              </td>
+              <td>
+                {entry?.score !== undefined || leaf ? formatScore(entry?.score) : null}
+                {!leaf && (
+                  <div className="justification" title="Sum of sub-items">
+                    Σ {formatScore(computedSubtotal(node))}
+                  </div>
+                )}
+              </td>
+              <td>
+                {entry?.verdict || leaf ? <span className={verdictBadge(verdict)}>{entry?.verdict ?? '—'}</span> : null}
+              </td>
+              <td>
+                {entry?.justification ? (
+                  <div>
+                    {issues && issues.length > 0 ? (
+                      <GrammarText
+                        text={entry.justification}
+                        issues={issues}
+                        onApply={(issue, replacement) => onApplyGrammar(node.id, issue, replacement)}
+                        onIgnoreWord={onIgnoreWord}
+                        onIgnoreRule={onIgnoreRule}
+                        onAddToDictionary={onAddToDictionary}
+                      />
+                    ) : (
+                      <div className="justification">{entry.justification}</div>
+                    )}
+                    <div style={{ marginTop: 6 }}>
+                      <span className={`badge ${badgeClass}`} title={badgeTitle}>
+                        {badgeLabel}
+                      </span>
+                    </div>
+                    {sectionLinks[node.id] && onRevealSection && (
+                      <div className="section-links">
+                        {sectionLinks[node.id].map((link) => (
+                          <button
+                            key={link.number}
+                            className="link-button"
+                            onClick={() => onRevealSection(link.line)}
+                            title={`Show section ${link.number} in the Markdown Preview`}
+                          >
+                            § {link.number}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ) : entry ? (
+                  <span className="justification" style={{ color: 'var(--muted)' }}>
+                    No justification provided.
+                  </span>
+                ) : null}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import type { ReviewSession } from '../lib/sessions';
+
+interface SessionSidebarProps {
+  sessions: ReviewSession[]; // most recent first
+  currentId: string | null;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+// Saved reviews: click one to reopen it; the open one is saved as you work.
+export default function SessionSidebar({ sessions, currentId, onOpen, onNew, onRename, onDelete, onClose }: SessionSidebarProps) {
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  function commitRename() {
+    if (renaming) onRename(renaming.id, renaming.name);
+    setRenaming(null);
+  }
+
+  return (
+    <aside className="session-sidebar" aria-label="Saved reviews">
+      <div className="controls" style={{ marginTop: 0 }}>
+        <h3 style={{ margin: 0, flex: 1 }}>History</h3>
+        <button className="button-secondary" onClick={onNew}>
+          New review
+        </button>
+        <button className="link-button" onClick={onClose} aria-label="Close history">
+          Close
+        </button>
+      </div>
+      <p className="justification" style={{ margin: '8px 0' }}>
+        Reviews are saved in this browser as you work: rubric, response, grammar results and ignored issues.
+      </p>
+      {!sessions.length && <p className="justification">Nothing saved yet.</p>}
+      <ul className="session-list">
+        {sessions.map((session) => (
+          <li key={session.id} className={session.id === currentId ? 'session-current' : undefined}>
+            {renaming?.id === session.id ? (
+              <input
+                className="select"
+                value={renaming.name}
+                onChange={(e) => setRenaming({ id: session.id, name: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenaming(null);
+                }}
+                aria-label="Session name"
+                autoFocus
+              />
+            ) : (
+              <button className="session-open" onClick={() => onOpen(session.id)} disabled={session.id === currentId}>
+                <strong>{session.name}</strong>
+                <span className="justification">{new Date(session.updatedAt).toLocaleString()}</span>
+              </button>
+            )}
+            <div className="session-actions">
+              <button className="link-button" onClick={() => setRenaming({ id: session.id, name: session.name })}>
+                Rename
+              </button>
+              <button
+                className="link-button"
+                onClick={() => {
+                  if (window.confirm(`Delete "${session.name}"?`)) onDelete(session.id);
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useMemo } from 'react';
+import { parseSmiles } from '../lib/smiles';
+import { formatRange, type SourceRange } from '../lib/sourceRange';
+
+export interface SmilesOccurrence {
+  text: string;
+  source: 'response' | 'rubric';
+  label: string; // "Response" or the rubric item id
+  range: SourceRange;
+}
+
+interface SmilesPanelProps {
+  occurrences: SmilesOccurrence[];
+  onLocate: (occurrence: SmilesOccurrence) => void;
+}
+
+export default function SmilesPanel({ occurrences, onLocate }: SmilesPanelProps) {
+  const rows = useMemo(
+    () => occurrences.map((occurrence) => ({ occurrence, result: parseSmiles(occurrence.text) })),
+    [occurrences]
+  );
+  if (!rows.length) return null;
+  const invalid = rows.filter((row) => row.result.errors.length).length;
+
+  return (
+    <details className="settings">
+      <summary>
+        SMILES ({rows.length} found{invalid ? `, ${invalid} invalid` : ''})
+      </summary>
+      <table className="table">
+        <thead>
+          <tr>
+            <th style={{ width: '22%' }}>Where</th>
+            <th>SMILES</th>
+            <th style={{ width: '36%' }}>Formula / problems</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ occurrence, result }, idx) => (
+            <tr key={`${occurrence.source}-${occurrence.range.startOffset}-${idx}`}>
+              <td>
+                <button className="diagnostic-link" onClick={() => onLocate(occurrence)}>
+                  <span className="code-chip">{formatRange(occurrence.range)}</span>
+                </button>{' '}
+                {occurrence.label}
+              </td>
+              <td>
+                <span className="code-chip smiles-text">{occurrence.text}</span>
+              </td>
+              <td>
+                {result.formula ? (
+                  <span className="badge badge-ok">{result.formula}</span>
+                ) : (
+                  <ul className="issues">
+                    {result.errors.map((error, errorIdx) => (
+                      <li key={errorIdx}>
+                        <span className="code-chip">{error.offset + 1}</span> {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import type { RubricTemplate } from '../lib/template';
+
+interface TemplatePanelProps {
+  text: string;
+  onChange: (text: string) => void;
+  template?: RubricTemplate;
+  error?: string | null;
+}
+
+const PLACEHOLDER = `name: Q2 chemistry
+Q2_A_1_max: 4
+Q2_A_1_step: 0.5
+Q2_A_1_required: score, verdict, justification
+Q2_D_3_max: 2
+
+or JSON: {"items": [{"id": "Q2_A_1", "maxScore": 4, "step": 0.5}]}`;
+
+export default function TemplatePanel({ text, onChange, template, error }: TemplatePanelProps) {
+  async function loadFile(file: File | undefined) {
+    if (!file) return;
+    onChange(await file.text());
+  }
+
+  return (
+    <details className="settings">
+      <summary>
+        Rubric template{template ? ` · ${template.name ?? 'loaded'} (${template.items.length} items)` : ''}
+      </summary>
+      <textarea
+        className="textarea"
+        style={{ minHeight: 140, marginTop: 10 }}
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={PLACEHOLDER}
+        spellCheck={false}
+      />
+      <div className="controls">
+        <label className="button-secondary file-button">
+          Load file…
+          <input
+            type="file"
+            accept=".json,.txt,text/plain,application/json"
+            onChange={(e) => loadFile(e.target.files?.[0])}
+            hidden
+          />
+        </label>
+        <button className="button-secondary" onClick={() => onChange('')} disabled={!text}>
+          Remove template
+        </button>
+      </div>
+      {error && <p style={{ color: 'var(--error)', marginTop: 10 }}>{error}</p>}
+    </details>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { DEFAULT_TERMS, exportTerms, parseTerms } from '../lib/terminology';
+
+interface TerminologyPanelProps {
+  text: string; // one term per line
+  onChange: (text: string) => void;
+  terms: string[];
+  error?: string | null;
+}
+
+export default function TerminologyPanel({ text, onChange, terms, error }: TerminologyPanelProps) {
+  async function importFile(file: File | undefined) {
+    if (!file) return;
+    const content = await file.text();
+    try {
+      onChange(parseTerms(content).join('\n'));
+    } catch {
+      // Keep the file's text so the error is shown and can be fixed in place.
+      onChange(content);
+    }
+  }
+
+  function exportFile() {
+    const url = URL.createObjectURL(new Blob([exportTerms(terms)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'terminology.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <details className="settings">
+      <summary>Terminology ({terms.length} terms)</summary>
+      <p className="justification" style={{ margin: '8px 0' }}>
+        Canonical spellings, one per line. Justifications that write a term with other casing are flagged at each
+        occurrence; text in `code`, quotes and $math$ is left alone.
+      </p>
+      <textarea
+        className="textarea"
+        style={{ minHeight: 140 }}
+        value={text}
+        onChange={(e) => onChange(e.target.value)}
+        spellCheck={false}
+      />
+      <div className="controls">
+        <label className="button-secondary file-button">
+          Import…
+          <input
+            type="file"
+            accept=".json,.txt,text/plain,application/json"
+            onChange={(e) => importFile(e.target.files?.[0])}
+            hidden
+          />
+        </label>
+        <button className="button-secondary" onClick={exportFile} disabled={!terms.length}>
+          Export
+        </button>
+        <button className="button-secondary" onClick={() => onChange(DEFAULT_TERMS.join('\n'))}>
+          Reset to defaults
+        </button>
+      </div>
+      {error && <p style={{ color: 'var(--error)', marginTop: 10 }}>{error}</p>}
+    </details>
+  );
+}
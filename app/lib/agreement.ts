@@ -0,0 +1,190 @@
+import { csvCell } from './format';
+import { isLeaf, walkTree } from './itemTree';
+import type { ParseResult } from './parseRubric';
+
+// Compares rubrics written by different graders for the same response. Items are aligned by id;
+// statistics only use leaf items that every grader scored, so subtotals are not counted twice.
+
+export interface GradedRubric {
+  name: string;
+  parsed: ParseResult;
+}
+
+export interface AgreementRow {
+  id: string;
+  leaf: boolean;
+  scores: (number | undefined)[]; // one per grader, in input order
+  verdicts: (string | undefined)[]; // unquoted and upper-cased
+  scoreDelta?: number; // max - min over the graders that scored the item
+  verdictsAgree?: boolean; // undefined when fewer than two graders gave a verdict
+}
+
+export interface PairAgreement {
+  a: number; // grader indexes
+  b: number;
+  items: number;
+  percentAgreement?: number; // 0..1
+  cohensKappa?: number;
+  meanAbsoluteScoreDifference?: number;
+}
+
+export interface AgreementReport {
+  graders: string[];
+  rows: AgreementRow[];
+  items: number; // leaf items with a verdict from every grader
+  percentAgreement?: number; // share of those items where all verdicts match
+  fleissKappa?: number;
+  cohensKappa?: number; // only for exactly two graders
+  meanAbsoluteScoreDifference?: number; // mean over items of the mean pairwise |difference|
+  pairs: PairAgreement[];
+}
+
+function normalizeVerdict(verdict: string | undefined) {
+  const text = verdict?.replace(/^"+|"+$/g, '').trim().toUpperCase();
+  return text || undefined;
+}
+
+function mean(values: number[]) {
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+}
+
+// Kappa is undefined when chance agreement is already perfect (every rating in one category).
+function kappa(observed: number, expected: number) {
+  return expected >= 1 ? undefined : (observed - expected) / (1 - expected);
+}
+
+export function cohensKappa(a: string[], b: string[]) {
+  if (!a.length || a.length !== b.length) return undefined;
+  const n = a.length;
+  const observed = a.filter((v, i) => v === b[i]).length / n;
+  const categories = Array.from(new Set(a.concat(b)));
+  const expected = categories.reduce((sum, c) => {
+    const pa = a.filter((v) => v === c).length / n;
+    const pb = b.filter((v) => v === c).length / n;
+    return sum + pa * pb;
+  }, 0);
+  return kappa(observed, expected);
+}
+
+// ratings[item][grader]; every item needs the same number (>= 2) of ratings.
+export function fleissKappa(ratings: string[][]) {
+  const raters = ratings[0]?.length ?? 0;
+  if (!ratings.length || raters < 2 || ratings.some((r) => r.length !== raters)) return undefined;
+  const categories = Array.from(new Set(ratings.reduce<string[]>((all, r) => all.concat(r), [])));
+  const perItem = ratings.map((r) => categories.map((c) => r.filter((v) => v === c).length));
+  const observed = mean(perItem.map((counts) => (counts.reduce((s, n) => s + n * n, 0) - raters) / (raters * (raters - 1)))) as number;
+  const expected = categories.reduce((sum, _, j) => {
+    const share = perItem.reduce((s, counts) => s + counts[j], 0) / (ratings.length * raters);
+    return sum + share * share;
+  }, 0);
+  return kappa(observed, expected);
+}
+
+function collectRows(rubrics: GradedRubric[]) {
+  const rows = new Map<string, AgreementRow>();
+  rubrics.forEach((rubric, grader) => {
+    walkTree(rubric.parsed.tree, (node) => {
+      const row =
+        rows.get(node.id) ??
+        ({
+          id: node.id,
+          leaf: isLeaf(node),
+          scores: rubrics.map(() => undefined),
+          verdicts: rubrics.map(() => undefined)
+        } as AgreementRow);
+      // An id that has sub-items in any rubric is a group.
+      row.leaf = row.leaf && isLeaf(node);
+      row.scores[grader] = typeof node.entry?.score === 'number' ? node.entry.score : undefined;
+      row.verdicts[grader] = normalizeVerdict(node.entry?.verdict);
+      rows.set(node.id, row);
+    });
+  });
+  // Group ids that only exist as parents of other ids carry nothing to compare.
+  const filled = Array.from(rows.values()).filter((row) => row.scores.some((s) => s !== undefined) || row.verdicts.some(Boolean));
+  return filled.map((row) => {
+    const scores = row.scores.filter((s): s is number => s !== undefined);
+    const verdicts = row.verdicts.filter((v): v is string => v !== undefined);
+    return {
+      ...row,
+      scoreDelta: scores.length >= 2 ? Math.max(...scores) - Math.min(...scores) : undefined,
+      verdictsAgree: verdicts.length >= 2 ? verdicts.every((v) => v === verdicts[0]) : undefined
+    };
+  });
+}
+
+function pairAgreement(rows: AgreementRow[], a: number, b: number): PairAgreement {
+  const rated = rows.filter((r) => r.leaf && r.verdicts[a] && r.verdicts[b]);
+  const va = rated.map((r) => r.verdicts[a] as string);
+  const vb = rated.map((r) => r.verdicts[b] as string);
+  const scored = rows.filter((r) => r.leaf && r.scores[a] !== undefined && r.scores[b] !== undefined);
+  return {
+    a,
+    b,
+    items: rated.length,
+    percentAgreement: rated.length ? va.filter((v, i) => v === vb[i]).length / rated.length : undefined,
+    cohensKappa: cohensKappa(va, vb),
+    meanAbsoluteScoreDifference: mean(scored.map((r) => Math.abs((r.scores[a] as number) - (r.scores[b] as number))))
+  };
+}
+
+export function compareRubrics(rubrics: GradedRubric[]): AgreementReport {
+  const rows = collectRows(rubrics);
+  const graders = rubrics.map((r) => r.name);
+  const complete = rows.filter((r) => r.leaf && r.verdicts.every(Boolean));
+  const ratings = complete.map((r) => r.verdicts as string[]);
+
+  const pairs: PairAgreement[] = [];
+  for (let a = 0; a < rubrics.length; a++) {
+    for (let b = a + 1; b < rubrics.length; b++) pairs.push(pairAgreement(rows, a, b));
+  }
+
+  const itemDifferences = rows
+    .filter((r) => r.leaf && r.scores.every((s) => s !== undefined))
+    .map((r) => mean(pairs.map((p) => Math.abs((r.scores[p.a] as number) - (r.scores[p.b] as number)))) as number);
+
+  return {
+    graders,
+    rows,
+    items: complete.length,
+    percentAgreement: complete.length ? complete.filter((r) => r.verdictsAgree).length / complete.length : undefined,
+    fleissKappa: fleissKappa(ratings),
+    cohensKappa: rubrics.length === 2 ? pairs[0].cohensKappa : undefined,
+    meanAbsoluteScoreDifference: pairs.length ? mean(itemDifferences) : undefined,
+    pairs
+  };
+}
+
+function statistic(value: number | undefined) {
+  return value === undefined ? '' : Number(value.toFixed(4));
+}
+
+// One row per item, then the statistics after a blank line.
+export function agreementCsv(report: AgreementReport): string {
+  const header = ['id', ...report.graders.flatMap((g) => [`${g} score`, `${g} verdict`]), 'score delta', 'verdicts agree'];
+  const lines = [header.map(csvCell).join(',')];
+  report.rows.forEach((row) => {
+    const cells = [
+      row.id,
+      ...report.graders.flatMap((_, i) => [row.scores[i], row.verdicts[i]]),
+      row.scoreDelta,
+      row.verdictsAgree === undefined ? undefined : row.verdictsAgree ? 'yes' : 'no'
+    ];
+    lines.push(cells.map(csvCell).join(','));
+  });
+  lines.push('', 'statistic,value');
+  const stats: [string, number | undefined][] = [
+    ['items compared', report.items],
+    ['percent agreement', report.percentAgreement === undefined ? undefined : report.percentAgreement * 100],
+    ["Fleiss' kappa", report.fleissKappa],
+    ['mean absolute score difference', report.meanAbsoluteScoreDifference]
+  ];
+  if (report.graders.length === 2) stats.splice(2, 0, ["Cohen's kappa", report.cohensKappa]);
+  stats.forEach(([name, value]) => lines.push(`${csvCell(name)},${statistic(value)}`));
+  if (report.pairs.length > 1) {
+    report.pairs.forEach((pair) => {
+      const label = `${report.graders[pair.a]} vs ${report.graders[pair.b]}`;
+      lines.push(`${csvCell(`${label} Cohen's kappa`)},${statistic(pair.cohensKappa)}`);
+    });
+  }
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,88 @@
+import { countBySeverity, type Severity } from './diagnostics';
+import type { RubricFormat } from './formats';
+import { parseRubric, type ParseOptions } from './parseRubric';
+
+// Checks many rubric files at once for the batch dashboard: one summary row per file, plus how
+// often each kind of finding comes up across the batch.
+
+export const RUBRIC_EXTENSIONS = ['.txt', '.json', '.yaml', '.yml', '.csv'];
+
+export interface BatchFile {
+  path: string; // relative to the dropped folder or archive
+  text: string;
+}
+
+export interface BatchRow {
+  path: string;
+  text: string;
+  format?: RubricFormat;
+  items: number;
+  expectedTotal: number;
+  possibleTotal?: number;
+  wrongVerdicts: number;
+  counts: Record<Severity, number>;
+  rules: Record<string, number>; // findings per rule id
+  error?: string; // the file could not be checked at all
+}
+
+export interface IssueTotal {
+  ruleId: string;
+  findings: number;
+  files: number; // files with at least one such finding
+}
+
+export type BatchSettings = Pick<ParseOptions, 'ruleConfig' | 'template' | 'terms' | 'coherence'>;
+
+// Rubric files by extension, leaving out hidden files and the __MACOSX folder zip tools add.
+export function isRubricFile(path: string) {
+  const parts = path.split('/');
+  if (parts.some((part) => part.startsWith('.') || part === '__MACOSX')) return false;
+  const name = parts[parts.length - 1].toLowerCase();
+  return RUBRIC_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+export function checkBatchFile(file: BatchFile, settings: BatchSettings = {}): BatchRow {
+  try {
+    const parsed = parseRubric(file.text, settings);
+    const rules: Record<string, number> = {};
+    parsed.diagnostics.forEach((d) => {
+      rules[d.ruleId] = (rules[d.ruleId] ?? 0) + 1;
+    });
+    return {
+      path: file.path,
+      text: file.text,
+      format: parsed.format,
+      items: parsed.entries.length,
+      expectedTotal: parsed.expectedTotal,
+      possibleTotal: parsed.possibleTotal,
+      wrongVerdicts: parsed.wrongVerdicts,
+      counts: countBySeverity(parsed.diagnostics),
+      rules
+    };
+  } catch (err) {
+    return {
+      path: file.path,
+      text: file.text,
+      items: 0,
+      expectedTotal: 0,
+      wrongVerdicts: 0,
+      counts: { error: 0, warning: 0, info: 0 },
+      rules: {},
+      error: err instanceof Error ? err.message : 'The file could not be checked.'
+    };
+  }
+}
+
+// Most common first.
+export function issueTotals(rows: BatchRow[]): IssueTotal[] {
+  const totals = new Map<string, IssueTotal>();
+  rows.forEach((row) => {
+    Object.keys(row.rules).forEach((ruleId) => {
+      const total = totals.get(ruleId) ?? { ruleId, findings: 0, files: 0 };
+      total.findings += row.rules[ruleId];
+      total.files += 1;
+      totals.set(ruleId, total);
+    });
+  });
+  return Array.from(totals.values()).sort((a, b) => b.findings - a.findings || a.ruleId.localeCompare(b.ruleId));
+}
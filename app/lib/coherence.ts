@@ -0,0 +1,92 @@
+// Settings for the score/verdict/justification coherence rules.
+
+// 'none': a WRONG_ANSWER item must score 0. 'below-max': partial credit is allowed as long as it
+// stays below the item's template max (without a template, any score is accepted).
+export type PartialCreditPolicy = 'none' | 'below-max';
+
+export interface CoherenceSettings {
+  partialCredit: PartialCreditPolicy;
+  positivePhrases: string[]; // contradict a WRONG_ANSWER verdict
+  negativePhrases: string[]; // contradict an ACCEPTED verdict
+}
+
+export const DEFAULT_COHERENCE: CoherenceSettings = {
+  partialCredit: 'none',
+  positivePhrases: [
+    'is correct',
+    'are correct',
+    'all correct',
+    'fully',
+    'correctly',
+    'completely correct',
+    'no errors',
+    'no mistakes',
+    'accurate',
+    'well done'
+  ],
+  negativePhrases: [
+    'missing',
+    'failed',
+    'fails',
+    'absent',
+    'incorrect',
+    'is wrong',
+    'are wrong',
+    'not provided',
+    'not correct',
+    'no figure',
+    'was not',
+    'were not',
+    'does not',
+    'did not'
+  ]
+};
+
+export interface PhraseOccurrence {
+  phrase: string;
+  offset: number;
+  length: number;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word, case-insensitive matches of any phrase; runs of whitespace in a phrase match any whitespace.
+export function findPhrases(text: string, phrases: string[]): PhraseOccurrence[] {
+  const found: PhraseOccurrence[] = [];
+  phrases.forEach((phrase) => {
+    const words = phrase.trim().split(/\s+/).filter(Boolean);
+    if (!words.length) return;
+    const pattern = new RegExp(`(^|[^A-Za-z0-9_])(${words.map(escapeRegExp).join('\\s+')})(?![A-Za-z0-9_])`, 'gi');
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(text))) {
+      found.push({ phrase: m[2], offset: m.index + m[1].length, length: m[2].length });
+      pattern.lastIndex = m.index + m[0].length;
+    }
+  });
+  return found
+    .sort((a, b) => a.offset - b.offset || b.length - a.length)
+    .filter((o, idx, all) => !all.slice(0, idx).some((p) => o.offset < p.offset + p.length));
+}
+
+// Reads settings from JSON (CLI files, API bodies, stored UI state); missing fields keep their defaults.
+export function parseCoherence(input: unknown): CoherenceSettings {
+  if (input === undefined || input === null) return DEFAULT_COHERENCE;
+  if (typeof input !== 'object' || Array.isArray(input)) throw new Error('Coherence settings must be an object.');
+  const body = input as Record<string, unknown>;
+  const settings = { ...DEFAULT_COHERENCE };
+  if (body.partialCredit !== undefined) {
+    if (body.partialCredit !== 'none' && body.partialCredit !== 'below-max') {
+      throw new Error('partialCredit must be "none" or "below-max".');
+    }
+    settings.partialCredit = body.partialCredit;
+  }
+  (['positivePhrases', 'negativePhrases'] as const).forEach((field) => {
+    const list = body[field];
+    if (list === undefined) return;
+    if (!Array.isArray(list) || list.some((p) => typeof p !== 'string')) throw new Error(`${field} must be an array of strings.`);
+    settings[field] = list as string[];
+  });
+  return settings;
+}
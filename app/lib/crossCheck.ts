@@ -0,0 +1,139 @@
+import type { ResponseFacts, SectionFact } from './responseFacts';
+
+// Compares what a justification says about the model response with what the response contains.
+
+export type ResponseFactKind = 'python' | 'code' | 'figure' | 'smiles' | 'table';
+
+export interface ResponseContradiction {
+  offset: number; // into the justification
+  length: number;
+  message: string;
+  line?: number; // the response line that shows the contradiction, when there is one
+}
+
+const FACT_LABELS: Record<ResponseFactKind, string> = {
+  python: 'Python code',
+  code: 'code',
+  figure: 'figure or image',
+  smiles: 'SMILES string',
+  table: 'table'
+};
+
+// Tried in order, so "Python script" is read as Python code rather than as code in general.
+const FACT_WORDS: { kind: ResponseFactKind; pattern: RegExp }[] = [
+  { kind: 'python', pattern: /\bpython(?:\s+(?:code|script|program|snippet|drawing|block))?\b/gi },
+  { kind: 'smiles', pattern: /\bsmiles(?:\s+strings?)?\b/gi },
+  { kind: 'code', pattern: /\b(?:code(?:\s+blocks?)?|scripts?|programs?|snippets?)\b/gi },
+  { kind: 'figure', pattern: /\b(?:figures?|images?|drawings?|pictures?|plots?|diagrams?)\b/gi },
+  { kind: 'table', pattern: /\btables?\b/gi }
+];
+
+// "no Python script", "without any figure"; "the table was not provided", "the drawing is absent".
+const ABSENT_BEFORE = /\b(?:no|without|lacks?|lacking|missing|omits?|omitted)\s+(?:\w+\s+){0,2}$/i;
+const ABSENT_AFTER =
+  /^\s+(?:(?:was|were|is|are|has|have)\s+(?:been\s+)?)?(?:(?:not|never)\s+(?:been\s+)?(?:provided|given|included|shown|drawn|present|supplied|written|generated)|missing|absent|omitted)\b/i;
+const REFERENCE_BEFORE = /\b(?:the|this|these|its|their)\s+(?:\w+\s+)?$/i;
+
+// Section numbers such as 2.4 or 3.1.2; "0.5" and "2.5 points" read as scores, not sections.
+const SECTION_REFERENCE = /(^|[^\d.])([1-9]\d*(?:\.\d+)+)(?![\d]|\.\d|\s*(?:points?|pts|marks?|%|\/))/g;
+
+interface Clause {
+  start: number;
+  text: string;
+}
+
+function clausesOf(text: string): Clause[] {
+  const clauses: Clause[] = [];
+  const boundary = /[.;!?](?=\s|$)|,\s*(?:and|but|while)\s/g;
+  let start = 0;
+  let m: RegExpExecArray | null;
+  while ((m = boundary.exec(text))) {
+    clauses.push({ start, text: text.slice(start, m.index) });
+    start = m.index + m[0].length;
+  }
+  clauses.push({ start, text: text.slice(start) });
+  return clauses;
+}
+
+function present(facts: ResponseFacts, kind: ResponseFactKind) {
+  if (kind === 'python') return facts.codeBlocks.filter((b) => b.language === 'python');
+  if (kind === 'code') return facts.codeBlocks;
+  if (kind === 'figure') return facts.images;
+  if (kind === 'smiles') return facts.smiles;
+  return facts.tables;
+}
+
+function sectionMatches(section: SectionFact, number: string) {
+  return section.number === number || section.number.startsWith(`${number}.`);
+}
+
+// Section numbers the justification mentions, with the response sections they point at.
+export function sectionReferences(text: string, facts: ResponseFacts) {
+  const refs: { number: string; offset: number; length: number; section?: SectionFact }[] = [];
+  SECTION_REFERENCE.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = SECTION_REFERENCE.exec(text))) {
+    const number = m[2];
+    refs.push({
+      number,
+      offset: m.index + m[1].length,
+      length: number.length,
+      section: facts.sections.find((s) => sectionMatches(s, number))
+    });
+  }
+  return refs;
+}
+
+export function findContradictions(text: string, facts: ResponseFacts): ResponseContradiction[] {
+  const found: ResponseContradiction[] = [];
+  clausesOf(text).forEach((clause) => {
+    const claimed = new Set<ResponseFactKind>();
+    const taken: { start: number; end: number }[] = [];
+    FACT_WORDS.forEach(({ kind, pattern }) => {
+      pattern.lastIndex = 0;
+      let m: RegExpExecArray | null;
+      while ((m = pattern.exec(clause.text))) {
+        const start = m.index;
+        const end = m.index + m[0].length;
+        // A phrase matched by an earlier kind ("Python script") is not matched again as "script".
+        if (taken.some((t) => t.start < end && start < t.end)) continue;
+        taken.push({ start, end });
+        if (claimed.has(kind)) continue;
+        const shown = present(facts, kind);
+        const before = clause.text.slice(0, start);
+        const after = clause.text.slice(end);
+        const label = FACT_LABELS[kind];
+        if (ABSENT_BEFORE.test(before) || ABSENT_AFTER.test(after)) {
+          claimed.add(kind);
+          if (!shown.length) continue;
+          found.push({
+            offset: clause.start + start,
+            length: m[0].length,
+            message: `Says no ${label} was provided, but the response has one on line ${shown[0].line}.`,
+            line: shown[0].line
+          });
+        } else if (REFERENCE_BEFORE.test(before) && !shown.length) {
+          claimed.add(kind);
+          found.push({
+            offset: clause.start + start,
+            length: m[0].length,
+            message: `Refers to the ${label}, but the response has none.`
+          });
+        }
+      }
+    });
+  });
+
+  // Only responses that number their sections can be checked for missing ones.
+  if (facts.sections.length) {
+    sectionReferences(text, facts).forEach((ref) => {
+      if (ref.section) return;
+      found.push({
+        offset: ref.offset,
+        length: ref.length,
+        message: `Refers to section ${ref.number}, but the response has no section ${ref.number}.`
+      });
+    });
+  }
+  return found.sort((a, b) => a.offset - b.offset);
+}
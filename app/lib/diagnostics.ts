@@ -0,0 +1,129 @@
+import type { CoherenceSettings } from './coherence';
+import type { FormatError, RubricFormat } from './formats';
+import type { ResponseFacts } from './responseFacts';
+import type { RubricEntry, RubricNode } from './parseRubric';
+import type { TextEdit } from './serialize';
+import type { KeyLocation, SourceLine, SourceRange } from './sourceRange';
+import type { RubricTemplate } from './template';
+
+export type Severity = 'error' | 'warning' | 'info';
+
+export const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+
+export interface Diagnostic {
+  ruleId: string;
+  severity: Severity;
+  message: string;
+  itemId?: string; // rubric item the finding points at (e.g., "Q2_A_1"), if any
+  key?: string; // raw rubric key (e.g., "Q2_A_1_verdict"), if the finding is about a single line
+  range?: SourceRange; // where to highlight in the rubric text
+  fix?: Fix;
+}
+
+// A mechanical correction for a finding, offered by the "Fix" review.
+export interface Fix {
+  description: string;
+  edits: TextEdit[];
+}
+
+// What a rule reports; the runner fills in ruleId and the effective severity.
+export type RuleFinding = Omit<Diagnostic, 'ruleId' | 'severity'>;
+
+export interface RuleContext {
+  raw: string;
+  format: RubricFormat;
+  entries: RubricEntry[];
+  tree: RubricNode[];
+  rawValues: Map<string, string>; // last raw (unstripped) value seen for each key
+  locations: Map<string, KeyLocation>; // last location seen for each key
+  duplicateKeys: SourceLine[];
+  unparsedLines: SourceLine[];
+  formatErrors: FormatError[];
+  ambiguousLines: FormatError[]; // key:value lines read as a new key or as a continuation, either way plausible
+  template?: RubricTemplate;
+  terms: string[]; // canonical spellings for the term-casing rule
+  coherence: CoherenceSettings;
+  response?: ResponseFacts; // what the graded model response contains, when one was given
+}
+
+export interface RubricRule {
+  id: string;
+  title: string;
+  description: string;
+  defaultSeverity: Severity;
+  check: (ctx: RuleContext) => RuleFinding[];
+}
+
+export interface RuleSetting {
+  enabled?: boolean;
+  severity?: Severity;
+}
+
+export type RuleConfig = Record<string, RuleSetting>;
+
+// Checks rule settings read from JSON (API bodies, --rules files) against `rules`; throws on the
+// first bad one, including an id that is not one of the rules (a typo would otherwise do nothing).
+export function parseRuleConfig(value: unknown, rules: RubricRule[]): RuleConfig {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('rules must be an object of rule settings.');
+  }
+  const known = new Set(rules.map((rule) => rule.id));
+  const config: RuleConfig = {};
+  Object.keys(value).forEach((id) => {
+    if (!known.has(id)) throw new Error(`rules.${id} is not a known rule. Rules: ${Array.from(known).join(', ')}.`);
+    const setting = (value as Record<string, unknown>)[id];
+    if (typeof setting !== 'object' || setting === null || Array.isArray(setting)) {
+      throw new Error(`rules.${id} must be an object with enabled and/or severity.`);
+    }
+    const { enabled, severity } = setting as Record<string, unknown>;
+    if (enabled !== undefined && typeof enabled !== 'boolean') throw new Error(`rules.${id}.enabled must be true or false.`);
+    if (severity !== undefined && !SEVERITIES.includes(severity as Severity)) {
+      throw new Error(`rules.${id}.severity must be one of: ${SEVERITIES.join(', ')}.`);
+    }
+    config[id] = { enabled: enabled as boolean | undefined, severity: severity as Severity | undefined };
+  });
+  return config;
+}
+
+export function isRuleEnabled(rule: RubricRule, config: RuleConfig = {}) {
+  return config[rule.id]?.enabled ?? true;
+}
+
+export function effectiveSeverity(rule: RubricRule, config: RuleConfig = {}): Severity {
+  return config[rule.id]?.severity ?? rule.defaultSeverity;
+}
+
+// Findings without an explicit range point at their key's line, else at the item's first line.
+function resolveRange(ctx: RuleContext, finding: RuleFinding): SourceRange | undefined {
+  if (finding.range) return finding.range;
+  if (finding.key) {
+    const location = ctx.locations.get(finding.key);
+    if (location) return location.line;
+  }
+  if (finding.itemId) {
+    const entry = ctx.entries.find((e) => e.id === finding.itemId);
+    const first = entry ? Object.values(entry.locations)[0] : undefined;
+    if (first) return first.line;
+  }
+  return undefined;
+}
+
+export function runRules(ctx: RuleContext, rules: RubricRule[], config: RuleConfig = {}): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  rules.forEach((rule) => {
+    if (!isRuleEnabled(rule, config)) return;
+    const severity = effectiveSeverity(rule, config);
+    rule.check(ctx).forEach((finding) => {
+      diagnostics.push({ ruleId: rule.id, severity, ...finding, range: resolveRange(ctx, finding) });
+    });
+  });
+  return diagnostics;
+}
+
+export function countBySeverity(diagnostics: Diagnostic[]): Record<Severity, number> {
+  const counts: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+  diagnostics.forEach((d) => {
+    counts[d.severity] += 1;
+  });
+  return counts;
+}
@@ -0,0 +1,245 @@
+import { SEVERITIES, type Severity } from './diagnostics';
+import { csvCell, formatScore } from './format';
+import { GRAMMAR_RULE_ID } from './grammar';
+import type { ReportDiagnostic, ReportEntry, RubricReport } from './report';
+import { formatRange } from './sourceRange';
+
+// Human-readable renderings of a RubricReport for sharing a review: Markdown for chat, CSV for a
+// spreadsheet and a standalone HTML page for printing. Everything is built from the report alone,
+// so the exports match the JSON download field for field.
+
+export interface ExportOptions {
+  title?: string; // e.g. the file or task the rubric belongs to
+  generatedAt?: Date;
+}
+
+export interface ReportSummary {
+  expectedTotal: number;
+  possibleTotal?: number;
+  items: number;
+  wrongVerdicts: number;
+  grammarFlags: number;
+  errors: number; // rubric findings, not counting grammar flags (as in "At a glance")
+  warnings: number; // warnings and info
+  responseIssues: number;
+}
+
+interface FlaggedItem {
+  entry: ReportEntry;
+  diagnostics: ReportDiagnostic[];
+}
+
+const SEVERITY_LABELS: Record<Severity, string> = { error: 'Error', warning: 'Warning', info: 'Info' };
+
+function bySeverity(a: ReportDiagnostic, b: ReportDiagnostic) {
+  return SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity);
+}
+
+function unquote(verdict: string | undefined) {
+  return verdict?.replace(/^"+|"+$/g, '').trim() || undefined;
+}
+
+export function summarizeReport(report: RubricReport): ReportSummary {
+  const findings = report.diagnostics.filter((d) => d.ruleId !== GRAMMAR_RULE_ID);
+  return {
+    expectedTotal: report.totals.expectedTotal,
+    possibleTotal: report.totals.possibleTotal,
+    items: report.totals.items,
+    wrongVerdicts: report.totals.wrongVerdicts,
+    grammarFlags: report.diagnostics.length - findings.length,
+    errors: findings.filter((d) => d.severity === 'error').length,
+    warnings: findings.filter((d) => d.severity !== 'error').length,
+    responseIssues: report.responseDiagnostics?.length ?? 0
+  };
+}
+
+// Items with at least one finding, in rubric order; findings are sorted errors first.
+function flaggedItems(report: RubricReport): FlaggedItem[] {
+  return report.entries
+    .map((entry) => ({ entry, diagnostics: report.diagnostics.filter((d) => d.itemId === entry.id).sort(bySeverity) }))
+    .filter((item) => item.diagnostics.length);
+}
+
+// Findings that are not about one item (format errors, unparsed lines, duplicate keys, ...).
+function generalFindings(report: RubricReport) {
+  const ids = new Set(report.entries.map((e) => e.id));
+  return report.diagnostics.filter((d) => !d.itemId || !ids.has(d.itemId)).sort(bySeverity);
+}
+
+function totalText(summary: ReportSummary) {
+  const total = formatScore(summary.expectedTotal);
+  return summary.possibleTotal === undefined ? total : `${total} / ${formatScore(summary.possibleTotal)}`;
+}
+
+function scoreAndVerdict(entry: ReportEntry) {
+  return [entry.score === undefined ? undefined : formatScore(entry.score), unquote(entry.verdict)].filter(Boolean).join(', ');
+}
+
+function where(d: ReportDiagnostic) {
+  return d.range ? `${formatRange(d.range)} ` : '';
+}
+
+// Keeps a message on one line so it stays inside its list item. Nothing is escaped: chat apps
+// differ in what they treat as markup, and backslashes would show up literally in most of them.
+function markdownText(text: string) {
+  return text.replace(/\s*\n\s*/g, ' ');
+}
+
+export function reportMarkdown(report: RubricReport, options: ExportOptions = {}): string {
+  const summary = summarizeReport(report);
+  const lines = [
+    `**${markdownText(options.title || 'Rubric review')}** — total ${totalText(summary)} · ${summary.items} items · ${summary.wrongVerdicts} wrong verdicts`,
+    `Errors: ${summary.errors} · Warnings: ${summary.warnings} · Grammar flags: ${summary.grammarFlags} · Response issues: ${summary.responseIssues}`
+  ];
+
+  const items = flaggedItems(report);
+  if (items.length) {
+    lines.push('', '**Flagged items**');
+    items.forEach(({ entry, diagnostics }) => {
+      const detail = scoreAndVerdict(entry);
+      lines.push(`- \`${entry.id}\`${detail ? ` (${detail})` : ''}`);
+      diagnostics.forEach((d) => lines.push(`  - ${SEVERITY_LABELS[d.severity]}: ${markdownText(d.message)}`));
+    });
+  }
+
+  const general = generalFindings(report);
+  if (general.length) {
+    lines.push('', '**Rubric**');
+    general.forEach((d) => lines.push(`- ${SEVERITY_LABELS[d.severity]}: ${where(d)}${markdownText(d.message)}`));
+  }
+
+  if (report.responseDiagnostics?.length) {
+    lines.push('', '**Model response**');
+    report.responseDiagnostics.forEach((d) => lines.push(`- ${where(d)}${markdownText(d.message)}`));
+  }
+
+  if (!items.length && !general.length && !report.responseDiagnostics?.length) lines.push('', 'No issues found.');
+  return lines.join('\n') + '\n';
+}
+
+// One row per item with its findings counted by kind; grammar flags get their own column.
+export function reportCsv(report: RubricReport): string {
+  const header = ['id', 'score', 'verdict', 'errors', 'warnings', 'info', 'grammar flags', 'findings', 'justification'];
+  const lines = [header.join(',')];
+  report.entries.forEach((entry) => {
+    const all = report.diagnostics.filter((d) => d.itemId === entry.id);
+    const findings = all.filter((d) => d.ruleId !== GRAMMAR_RULE_ID);
+    const count = (severity: Severity) => findings.filter((d) => d.severity === severity).length;
+    const cells = [
+      entry.id,
+      entry.score,
+      unquote(entry.verdict),
+      count('error'),
+      count('warning'),
+      count('info'),
+      all.length - findings.length,
+      findings
+        .sort(bySeverity)
+        .map((d) => d.message)
+        .join('; '),
+      entry.justification
+    ];
+    lines.push(cells.map(csvCell).join(','));
+  });
+  return lines.join('\n') + '\n';
+}
+
+export function reportJson(report: RubricReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+  body { font: 14px/1.5 system-ui, -apple-system, 'Segoe UI', sans-serif; color: #0f172a; margin: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 16px; margin: 28px 0 8px; }
+  .meta { color: #64748b; margin: 0; }
+  .stats { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; margin-top: 16px; }
+  .stat { border: 1px solid #e2e8f0; border-radius: 8px; padding: 8px 10px; }
+  .stat span { display: block; color: #64748b; font-size: 12px; text-transform: uppercase; letter-spacing: 0.04em; }
+  .stat strong { font-size: 18px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid #e2e8f0; }
+  th { font-size: 12px; color: #64748b; text-transform: uppercase; }
+  tr { page-break-inside: avoid; }
+  ul { margin: 0; padding-left: 18px; }
+  .sev { font-size: 11px; font-weight: 600; text-transform: uppercase; }
+  .sev-error { color: #be123c; }
+  .sev-warning { color: #c2410c; }
+  .sev-info { color: #0369a1; }
+  .justification { color: #475569; }
+  code { font-family: ui-monospace, 'JetBrains Mono', monospace; font-size: 12px; }
+  @media print { body { margin: 0; } }
+`;
+
+function htmlFinding(d: ReportDiagnostic, showRange: boolean) {
+  const range = showRange && d.range ? `<code>${formatRange(d.range)}</code> ` : '';
+  return `<li><span class="sev sev-${d.severity}">${SEVERITY_LABELS[d.severity]}</span> ${range}${escapeHtml(d.message)}</li>`;
+}
+
+// A complete page with its styles inline, so it can be saved, mailed or printed to PDF as is.
+export function reportHtml(report: RubricReport, options: ExportOptions = {}): string {
+  const summary = summarizeReport(report);
+  const title = options.title || 'Rubric review';
+  const generated = (options.generatedAt ?? new Date()).toLocaleString();
+  const stats: [string, string | number][] = [
+    ['Expected Total', totalText(summary)],
+    ['Items', summary.items],
+    ['Wrong Verdicts', summary.wrongVerdicts],
+    ['Grammar Flags', summary.grammarFlags],
+    ['Total Errors', summary.errors],
+    ['Warnings', summary.warnings],
+    ['Response Issues', summary.responseIssues]
+  ];
+
+  const parts = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="meta">Generated ${escapeHtml(generated)} · ${escapeHtml(report.format)} rubric</p>`,
+    '<h2>At a glance</h2>',
+    `<div class="stats">${stats.map(([label, value]) => `<div class="stat"><span>${label}</span><strong>${escapeHtml(String(value))}</strong></div>`).join('')}</div>`
+  ];
+
+  const items = flaggedItems(report);
+  parts.push(`<h2>Flagged items (${items.length})</h2>`);
+  if (items.length) {
+    parts.push('<table><thead><tr><th>Item</th><th>Score</th><th>Verdict</th><th>Justification</th><th>Findings</th></tr></thead><tbody>');
+    items.forEach(({ entry, diagnostics }) => {
+      parts.push(
+        `<tr><td><code>${escapeHtml(entry.id)}</code></td>` +
+          `<td>${escapeHtml(formatScore(entry.score))}</td>` +
+          `<td>${escapeHtml(unquote(entry.verdict) ?? '—')}</td>` +
+          `<td class="justification">${escapeHtml(entry.justification ?? '—')}</td>` +
+          `<td><ul>${diagnostics.map((d) => htmlFinding(d, false)).join('')}</ul></td></tr>`
+      );
+    });
+    parts.push('</tbody></table>');
+  } else {
+    parts.push('<p class="meta">No item has findings.</p>');
+  }
+
+  const general = generalFindings(report);
+  if (general.length) {
+    parts.push('<h2>Rubric</h2>', `<ul>${general.map((d) => htmlFinding(d, true)).join('')}</ul>`);
+  }
+  if (report.responseDiagnostics?.length) {
+    parts.push('<h2>Model response</h2>', `<ul>${report.responseDiagnostics.map((d) => htmlFinding(d, true)).join('')}</ul>`);
+  }
+  if (report.grammarErrors?.length) {
+    const failed = report.grammarErrors.map((e) => `<li><code>${escapeHtml(e.itemId)}</code> ${escapeHtml(e.message)}</li>`);
+    parts.push('<h2>Not grammar-checked</h2>', `<ul>${failed.join('')}</ul>`);
+  }
+
+  parts.push('</body>', '</html>');
+  return parts.join('\n') + '\n';
+}
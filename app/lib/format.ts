@@ -0,0 +1,16 @@
+export function formatScore(value?: number) {
+  if (value === undefined || value === null) return '—';
+  const frac = Math.abs(value - Math.trunc(value));
+  if (frac >= 0.95) return Math.round(value).toString();
+  const fixed = value.toFixed(2);
+  return fixed.replace(/\.?0+$/, '');
+}
+
+// One CSV field, quoted only when it has to be. Text that a spreadsheet would run as a formula
+// (starting with =, +, -, @, a tab or a carriage return) gets a leading ' so it opens as text;
+// numbers are written as they are.
+export function csvCell(value: string | number | undefined) {
+  if (value === undefined) return '';
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
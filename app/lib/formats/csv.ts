@@ -0,0 +1,132 @@
+import { lineStartsOf, rangeFromOffsets } from '../sourceRange';
+import {
+  appendUnescaped,
+  newValue,
+  segmentsOf,
+  type FormatError,
+  type ReadResult,
+  type SourceField,
+  type ValueBuilder
+} from './shared';
+
+interface CsvCell {
+  value: ValueBuilder;
+  raw: string;
+  start: number; // content offsets, inside the quotes for quoted cells
+  end: number;
+}
+
+interface CsvRow {
+  cells: CsvCell[];
+  start: number;
+  end: number;
+}
+
+// RFC 4180: comma separated, "quoted" cells may contain commas, newlines and "" escapes.
+function parseCsv(text: string, errors: FormatError[], lineStarts: number[]): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const rowStart = i;
+    const cells: CsvCell[] = [];
+    for (;;) {
+      const cellStart = i;
+      if (text[i] === '"') {
+        let j = i + 1;
+        while (j < text.length && !(text[j] === '"' && text[j + 1] !== '"')) {
+          j += text[j] === '"' ? 2 : 1;
+        }
+        if (j >= text.length) {
+          errors.push({
+            message: 'Quoted CSV cell is never closed.',
+            range: rangeFromOffsets(lineStarts, cellStart, cellStart + 1)
+          });
+        }
+        const value = newValue();
+        appendUnescaped(value, text.slice(i + 1, j), i + 1, '""');
+        cells.push({ value, raw: text.slice(cellStart, j + 1), start: i + 1, end: j });
+        i = j + 1;
+        // Tolerate stray characters between the closing quote and the delimiter.
+        while (i < text.length && text[i] !== ',' && text[i] !== '\n' && text[i] !== '\r') i++;
+      } else {
+        while (i < text.length && text[i] !== ',' && text[i] !== '\n' && text[i] !== '\r') i++;
+        const cellText = text.slice(cellStart, i);
+        const trimmedStart = cellStart + (cellText.length - cellText.trimStart().length);
+        const trimmed = cellText.trim();
+        const value = newValue();
+        appendUnescaped(value, trimmed, trimmedStart, '""');
+        cells.push({ value, raw: trimmed, start: trimmedStart, end: trimmedStart + trimmed.length });
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      break;
+    }
+    const rowEnd = i;
+    if (text[i] === '\r') i++;
+    if (text[i] === '\n') i++;
+    if (cells.length > 1 || cells[0].raw) rows.push({ cells, start: rowStart, end: rowEnd });
+  }
+  return rows;
+}
+
+// Two layouts: one row per item with an `id` column (id,score,verdict,justification), or
+// one row per key with `key,value` columns (the header is optional for the latter).
+export function readCsv(raw: string): ReadResult {
+  const lineStarts = lineStartsOf(raw);
+  const errors: FormatError[] = [];
+  const rows = parseCsv(raw, errors, lineStarts);
+  const fields: SourceField[] = [];
+  if (!rows.length) return { format: 'csv', fields, unparsedLines: [], errors };
+
+  const header = rows[0].cells.map((c) => c.value.text.trim().toLowerCase());
+  const idColumn = header.indexOf('id');
+  const keyValueHeader = header.length === 2 && header[0] === 'key' && header[1] === 'value';
+
+  function pushField(key: string, keyCell: CsvCell, valueCell: CsvCell, row: CsvRow) {
+    fields.push({
+      key,
+      value: valueCell.value.text,
+      rawValue: valueCell.raw,
+      location: {
+        line: rangeFromOffsets(lineStarts, row.start, row.end),
+        key: rangeFromOffsets(lineStarts, keyCell.start, keyCell.end),
+        value: rangeFromOffsets(lineStarts, valueCell.start, valueCell.end),
+        segments: segmentsOf(valueCell.value)
+      }
+    });
+  }
+
+  if (idColumn !== -1) {
+    rows.slice(1).forEach((row) => {
+      const idCell = row.cells[idColumn];
+      const id = idCell?.value.text.trim();
+      if (!id) {
+        errors.push({ message: 'CSV row has no id.', range: rangeFromOffsets(lineStarts, row.start, row.end) });
+        return;
+      }
+      row.cells.forEach((cell, idx) => {
+        if (idx === idColumn || !header[idx] || (!cell.raw && !cell.value.text)) return;
+        pushField(`${id}_${header[idx]}`, idCell, cell, row);
+      });
+    });
+  } else if (keyValueHeader || rows.every((row) => row.cells.length === 2)) {
+    rows.slice(keyValueHeader ? 1 : 0).forEach((row) => {
+      const [keyCell, valueCell] = row.cells;
+      if (!valueCell) {
+        errors.push({ message: 'CSV row needs a key and a value.', range: rangeFromOffsets(lineStarts, row.start, row.end) });
+        return;
+      }
+      pushField(keyCell.value.text.trim(), keyCell, valueCell, row);
+    });
+  } else {
+    errors.push({
+      message: 'CSV needs an "id" column (id,score,verdict,justification) or key,value columns.',
+      range: rangeFromOffsets(lineStarts, rows[0].start, rows[0].end)
+    });
+  }
+
+  return { format: 'csv', fields, unparsedLines: [], errors };
+}
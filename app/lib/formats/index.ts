@@ -0,0 +1,38 @@
+import { readCsv } from './csv';
+import { readJson } from './json';
+import { readKeyValue } from './keyValue';
+import type { FormatChoice, ReadResult, RubricFormat } from './shared';
+import { readYaml } from './yaml';
+
+export { FORMAT_LABELS } from './shared';
+export type { FormatChoice, FormatError, ReadResult, RubricFormat, SourceField } from './shared';
+
+export function detectFormat(raw: string): RubricFormat {
+  const trimmed = raw.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json';
+
+  const lines = raw.split(/\r?\n/).filter((line) => line.trim() && !line.trim().startsWith('#'));
+  const first = lines[0] ?? '';
+  if (/^\s*"?(id|key)"?\s*,/i.test(first)) return 'csv';
+  if (/^(---|-\s)/.test(first.trim())) return 'yaml';
+
+  // `Q2_A_1:` followed by an indented `score: 0` is a nested YAML mapping, not a wrapped value,
+  // and `Q2_justification: |` (or `>`) followed by indented text is a YAML block scalar.
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (/^[^\s:#][^\s:]*\s*:\s*$/.test(lines[i]) && /^\s+["']?[\w.-]+["']?\s*:(\s|$)/.test(lines[i + 1])) {
+      return 'yaml';
+    }
+    if (/^\s*[^\s:#][^\s:]*\s*:\s*[|>][1-9+-]{0,2}\s*(#.*)?$/.test(lines[i]) && /^\s/.test(lines[i + 1])) {
+      return 'yaml';
+    }
+  }
+  return 'kv';
+}
+
+export function readRubric(raw: string, format: FormatChoice = 'auto'): ReadResult {
+  const resolved = format === 'auto' ? detectFormat(raw) : format;
+  if (resolved === 'json') return readJson(raw);
+  if (resolved === 'yaml') return readYaml(raw);
+  if (resolved === 'csv') return readCsv(raw);
+  return readKeyValue(raw);
+}
@@ -0,0 +1,215 @@
+import { lineStartsOf, rangeFromOffsets } from '../sourceRange';
+import { appendSynthetic, appendVerbatim, newValue, segmentsOf, type ReadResult, type SourceField, type ValueBuilder } from './shared';
+import { flattenStructured, rawValueOf, type ValuePath } from './structured';
+
+// A small JSON parser that keeps source offsets, so every field can point back at its line.
+type JsonNode =
+  | { kind: 'object'; start: number; end: number; members: JsonMember[] }
+  | { kind: 'array'; start: number; end: number; items: JsonNode[] }
+  | { kind: 'string'; start: number; end: number; value: ValueBuilder }
+  | { kind: 'literal'; start: number; end: number; value: number | boolean | null };
+
+interface JsonMember {
+  key: string;
+  keyStart: number;
+  keyEnd: number;
+  value: JsonNode;
+}
+
+function parseJson(text: string): JsonNode {
+  let i = 0;
+
+  function fail(message: string): never {
+    throw Object.assign(new Error(message), { offset: Math.min(i, text.length) });
+  }
+
+  function skipWhitespace() {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  }
+
+  function expect(ch: string) {
+    if (text[i] !== ch) fail(`Expected "${ch}" but found ${text[i] ? `"${text[i]}"` : 'end of input'}.`);
+    i++;
+  }
+
+  function parseString(): JsonNode {
+    const start = i;
+    expect('"');
+    const value = newValue();
+    let runStart = i;
+    while (i < text.length && text[i] !== '"') {
+      if (text[i] === '\n') fail('Unterminated string.');
+      if (text[i] !== '\\') {
+        i++;
+        continue;
+      }
+      appendVerbatim(value, text.slice(runStart, i), runStart);
+      const esc = text[i + 1];
+      if (esc === '"' || esc === '\\' || esc === '/') {
+        appendVerbatim(value, esc, i + 1);
+        i += 2;
+      } else if (esc === 'u') {
+        const hex = text.slice(i + 2, i + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) fail('Invalid \\u escape.');
+        appendSynthetic(value, String.fromCharCode(parseInt(hex, 16)));
+        i += 6;
+      } else {
+        const decoded: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' };
+        if (!(esc in decoded)) fail(`Invalid escape "\\${esc ?? ''}".`);
+        appendSynthetic(value, decoded[esc]);
+        i += 2;
+      }
+      runStart = i;
+    }
+    if (i >= text.length) fail('Unterminated string.');
+    appendVerbatim(value, text.slice(runStart, i), runStart);
+    i++;
+    return { kind: 'string', start, end: i, value };
+  }
+
+  function parseValue(): JsonNode {
+    skipWhitespace();
+    const start = i;
+    const ch = text[i];
+    if (ch === '{') {
+      i++;
+      const members: JsonMember[] = [];
+      skipWhitespace();
+      if (text[i] === '}') {
+        i++;
+        return { kind: 'object', start, end: i, members };
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[i] !== '"') fail('Expected a quoted property name.');
+        const keyNode = parseString();
+        skipWhitespace();
+        expect(':');
+        const value = parseValue();
+        members.push({
+          key: keyNode.kind === 'string' ? keyNode.value.text : '',
+          keyStart: keyNode.start + 1,
+          keyEnd: keyNode.end - 1,
+          value
+        });
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+          continue;
+        }
+        expect('}');
+        return { kind: 'object', start, end: i, members };
+      }
+    }
+    if (ch === '[') {
+      i++;
+      const items: JsonNode[] = [];
+      skipWhitespace();
+      if (text[i] === ']') {
+        i++;
+        return { kind: 'array', start, end: i, items };
+      }
+      for (;;) {
+        items.push(parseValue());
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+          continue;
+        }
+        expect(']');
+        return { kind: 'array', start, end: i, items };
+      }
+    }
+    if (ch === '"') return parseString();
+
+    const literal = text.slice(i).match(/^(true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/);
+    if (!literal) fail(ch ? `Unexpected "${ch}".` : 'Unexpected end of input.');
+    i += literal[0].length;
+    const token = literal[0];
+    const value = token === 'true' ? true : token === 'false' ? false : token === 'null' ? null : Number(token);
+    return { kind: 'literal', start, end: i, value };
+  }
+
+  const root = parseValue();
+  skipWhitespace();
+  if (i < text.length) fail('Unexpected content after the end of the JSON value.');
+  return root;
+}
+
+function toPlain(node: JsonNode): unknown {
+  if (node.kind === 'object') {
+    const out: Record<string, unknown> = {};
+    node.members.forEach((m) => {
+      out[m.key] = toPlain(m.value);
+    });
+    return out;
+  }
+  if (node.kind === 'array') return node.items.map(toPlain);
+  if (node.kind === 'string') return node.value.text;
+  return node.value;
+}
+
+// The member (for its key range) and value node a flattened path ends at.
+function resolvePath(root: JsonNode, path: ValuePath) {
+  let node: JsonNode | undefined = root;
+  let member: JsonMember | undefined;
+  path.forEach((segment) => {
+    if (!node) return;
+    if (typeof segment === 'number') {
+      node = node.kind === 'array' ? node.items[segment] : undefined;
+    } else if (node.kind === 'object') {
+      // Later duplicates win, as in JSON.parse.
+      member = node.members.filter((m) => m.key === segment).pop();
+      node = member?.value;
+    } else {
+      node = undefined;
+    }
+  });
+  return { member, node };
+}
+
+export function readJson(raw: string): ReadResult {
+  const lineStarts = lineStartsOf(raw);
+  let root: JsonNode;
+  try {
+    root = parseJson(raw);
+  } catch (err) {
+    const offset = (err as { offset?: unknown }).offset;
+    if (!(err instanceof Error) || typeof offset !== 'number') throw err;
+    return {
+      format: 'json',
+      fields: [],
+      unparsedLines: [],
+      errors: [{ message: `Invalid JSON: ${err.message}`, range: rangeFromOffsets(lineStarts, offset, offset + 1) }]
+    };
+  }
+
+  const { values, errors } = flattenStructured(toPlain(root));
+  const fields: SourceField[] = values.map((flat) => {
+    const { member, node } = resolvePath(root, flat.path);
+    const keyStart = member?.keyStart ?? root.start;
+    const keyEnd = member?.keyEnd ?? root.start;
+    const valueNode = node ?? root;
+    const isString = valueNode.kind === 'string';
+    const valueStart = isString ? valueNode.start + 1 : valueNode.start;
+    const valueEnd = isString ? valueNode.end - 1 : valueNode.end;
+    return {
+      key: flat.key,
+      value: flat.value,
+      rawValue: rawValueOf(flat),
+      location: {
+        line: rangeFromOffsets(lineStarts, Math.max(0, keyStart - 1), valueNode.end),
+        key: rangeFromOffsets(lineStarts, keyStart, keyEnd),
+        value: rangeFromOffsets(lineStarts, valueStart, valueEnd),
+        segments: valueNode.kind === 'string' ? segmentsOf(valueNode.value) : undefined
+      }
+    };
+  });
+
+  return {
+    format: 'json',
+    fields,
+    unparsedLines: [],
+    errors: errors.map((message) => ({ message }))
+  };
+}
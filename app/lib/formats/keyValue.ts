@@ -0,0 +1,173 @@
+import { detectField } from '../rubricKeys';
+import { lineStartsOf, rangeFromOffsets, type SourceLine } from '../sourceRange';
+import {
+  appendSynthetic,
+  appendUnescaped,
+  appendVerbatim,
+  newValue,
+  segmentsOf,
+  type FormatError,
+  type ReadResult,
+  type SourceField,
+  type ValueBuilder
+} from './shared';
+
+const KEY_LINE = /^([^\s:#][^\s:]*)\s*:[ \t]*(.*)$/;
+
+interface PendingField {
+  key: string;
+  keyStart: number;
+  lineStart: number; // offset of the first non-space character of the key line
+  indent: number; // of the key line; deeper-indented lines continue the value
+  value: ValueBuilder;
+  rawParts: string[];
+  valueStart: number;
+  valueEnd: number;
+  lineEnd: number; // end of the last line's content, including a closing quote
+  quoted: boolean; // inside a "..." value that has not been closed yet
+  quoteLine: number;
+  blankLines: number;
+}
+
+function endsWithUnescapedQuote(text: string) {
+  return text.length >= 2 && text.endsWith('"') && !text.endsWith('\\"');
+}
+
+function hasUnescapedQuote(text: string) {
+  return /(^|[^\\])"/.test(text);
+}
+
+// `key: value` lines. A value continues onto following lines when it is an unclosed "quoted"
+// string, or when the next line is indented deeper than the key or does not start with a rubric
+// key such as `Q1_score:` (wrapped text, including lines like `Note: ...`). Blank lines and `#`
+// comments end a value. Where a line could be read either way, the reading taken is reported in
+// `ambiguities`.
+export function readKeyValue(raw: string): ReadResult {
+  const lineStarts = lineStartsOf(raw);
+  const fields: SourceField[] = [];
+  const unparsedLines: SourceLine[] = [];
+  const errors: FormatError[] = [];
+  const ambiguities: FormatError[] = [];
+  let pending: PendingField | null = null;
+
+  function flush() {
+    if (!pending) return;
+    const current = pending;
+    pending = null;
+    if (current.quoted) {
+      errors.push({
+        message: `Quoted value for ${current.key} starting on line ${current.quoteLine} is never closed.`,
+        range: rangeFromOffsets(lineStarts, current.keyStart, current.lineEnd)
+      });
+    }
+    fields.push({
+      key: current.key,
+      value: current.value.text,
+      rawValue: current.rawParts.join('\n'),
+      location: {
+        line: rangeFromOffsets(lineStarts, current.lineStart, current.lineEnd),
+        key: rangeFromOffsets(lineStarts, current.keyStart, current.keyStart + current.key.length),
+        value: rangeFromOffsets(lineStarts, current.valueStart, current.valueEnd),
+        segments: segmentsOf(current.value)
+      }
+    });
+  }
+
+  raw.split(/\r?\n/).forEach((line, index) => {
+    const offset = lineStarts[index];
+    const trimmed = line.trim();
+    const indent = line.length - line.trimStart().length;
+    const contentStart = offset + indent;
+
+    if (pending?.quoted) {
+      // Blank lines inside quotes are kept, but only once more text follows them.
+      if (!trimmed) {
+        pending.blankLines += 1;
+        return;
+      }
+      appendSynthetic(pending.value, '\n'.repeat(pending.blankLines + 1));
+      pending.rawParts.push(...Array(pending.blankLines).fill(''), trimmed);
+      pending.blankLines = 0;
+      if (endsWithUnescapedQuote(trimmed) || trimmed === '"') {
+        appendUnescaped(pending.value, trimmed.slice(0, -1), contentStart, '\\"');
+        pending.valueEnd = contentStart + trimmed.length - 1;
+        pending.quoted = false;
+      } else {
+        appendUnescaped(pending.value, trimmed, contentStart, '\\"');
+        pending.valueEnd = contentStart + trimmed.length;
+      }
+      pending.lineEnd = contentStart + trimmed.length;
+      return;
+    }
+
+    if (!trimmed || trimmed.startsWith('#')) {
+      flush();
+      return;
+    }
+
+    const match = trimmed.match(KEY_LINE);
+    const lineRange = rangeFromOffsets(lineStarts, contentStart, contentStart + trimmed.length);
+    if (pending && (indent > pending.indent || !match || detectField(match[1]) === 'other')) {
+      if (match && detectField(match[1]) !== 'other') {
+        ambiguities.push({
+          message: `Line ${index + 1} looks like the key ${match[1]} but is indented under ${pending.key}, so it was read as part of that value. Remove the indent if it is a key.`,
+          range: lineRange
+        });
+      } else if (match && indent <= pending.indent) {
+        ambiguities.push({
+          message: `Line ${index + 1} looks like a key "${match[1]}" but was read as part of ${pending.key}. Put a blank line before it if it is a key.`,
+          range: lineRange
+        });
+      }
+      if (pending.value.text) appendSynthetic(pending.value, '\n');
+      else pending.valueStart = contentStart;
+      appendVerbatim(pending.value, trimmed, contentStart);
+      pending.rawParts.push(trimmed);
+      pending.valueEnd = contentStart + trimmed.length;
+      pending.lineEnd = pending.valueEnd;
+      return;
+    }
+
+    flush();
+    if (!match) {
+      unparsedLines.push({ text: trimmed, range: lineRange });
+      return;
+    }
+
+    const key = match[1];
+    const rest = match[2].trim();
+    // match[2] is a suffix of the trimmed line, so its column follows from the lengths.
+    const restStart = contentStart + trimmed.length - match[2].length;
+    const value = newValue();
+    const next: PendingField = {
+      key,
+      keyStart: contentStart,
+      lineStart: contentStart,
+      indent,
+      value,
+      rawParts: rest ? [rest] : [],
+      valueStart: restStart,
+      valueEnd: restStart + rest.length,
+      lineEnd: restStart + rest.length,
+      quoted: false,
+      quoteLine: index + 1,
+      blankLines: 0
+    };
+
+    if (rest.startsWith('"') && endsWithUnescapedQuote(rest)) {
+      appendUnescaped(value, rest.slice(1, -1), restStart + 1, '\\"');
+      next.valueStart = restStart + 1;
+      next.valueEnd = restStart + rest.length - 1;
+    } else if (rest.startsWith('"') && !hasUnescapedQuote(rest.slice(1))) {
+      appendUnescaped(value, rest.slice(1), restStart + 1, '\\"');
+      next.valueStart = restStart + 1;
+      next.quoted = true;
+    } else {
+      appendVerbatim(value, rest, restStart);
+    }
+    pending = next;
+  });
+  flush();
+
+  return { format: 'kv', fields, unparsedLines, errors, ambiguities };
+}
@@ -0,0 +1,78 @@
+import type { KeyLocation, SourceLine, SourceRange, ValueSegment } from '../sourceRange';
+
+export type RubricFormat = 'kv' | 'json' | 'yaml' | 'csv';
+export type FormatChoice = RubricFormat | 'auto';
+
+export const FORMAT_LABELS: Record<FormatChoice, string> = {
+  auto: 'Auto-detect',
+  kv: 'key: value text',
+  json: 'JSON',
+  yaml: 'YAML',
+  csv: 'CSV'
+};
+
+// One rubric key with its decoded value, as produced by any of the format readers.
+export interface SourceField {
+  key: string; // flattened rubric key, e.g. "Q2_A_1_score"
+  value: string; // decoded value (outer quotes stripped, escapes resolved)
+  rawValue: string; // value as written, used by the quote checks
+  location: KeyLocation;
+}
+
+export interface FormatError {
+  message: string;
+  range?: SourceRange;
+}
+
+export interface ReadResult {
+  format: RubricFormat;
+  fields: SourceField[];
+  unparsedLines: SourceLine[];
+  errors: FormatError[];
+  ambiguities?: FormatError[]; // key:value text only: lines that could have been read either way
+}
+
+export interface ValueBuilder {
+  text: string;
+  segments: ValueSegment[];
+}
+
+export function newValue(): ValueBuilder {
+  return { text: '', segments: [] };
+}
+
+export function appendVerbatim(value: ValueBuilder, text: string, sourceOffset: number) {
+  if (!text) return;
+  const last = value.segments[value.segments.length - 1];
+  if (last && last.valueOffset + last.length === value.text.length && last.sourceOffset + last.length === sourceOffset) {
+    last.length += text.length;
+  } else {
+    value.segments.push({ valueOffset: value.text.length, sourceOffset, length: text.length });
+  }
+  value.text += text;
+}
+
+// Text with no source of its own, such as the newline joining two wrapped lines.
+export function appendSynthetic(value: ValueBuilder, text: string) {
+  value.text += text;
+}
+
+// Appends `text` (found at `sourceOffset`) with `escape` sequences collapsed to a single quote.
+export function appendUnescaped(value: ValueBuilder, text: string, sourceOffset: number, escape: '\\"' | '""') {
+  let start = 0;
+  let idx = text.indexOf(escape);
+  while (idx !== -1) {
+    appendVerbatim(value, text.slice(start, idx), sourceOffset + start);
+    appendVerbatim(value, '"', sourceOffset + idx + 1);
+    start = idx + 2;
+    idx = text.indexOf(escape, start);
+  }
+  appendVerbatim(value, text.slice(start), sourceOffset + start);
+}
+
+// Segments are only needed when the value is not one contiguous slice of the source.
+export function segmentsOf(value: ValueBuilder): ValueSegment[] | undefined {
+  if (value.segments.length === 1 && value.segments[0].length === value.text.length) return undefined;
+  if (!value.segments.length && !value.text) return undefined;
+  return value.segments;
+}
@@ -0,0 +1,69 @@
+// Shared by the JSON and YAML readers: both decode to plain values that are flattened into
+// rubric keys. Accepted shapes:
+//   flat      {"Q2_A_1_score": 0, "Q2_A_1_verdict": "WRONG_ANSWER", ...}
+//   nested    {"Q2": {"A": {"1": {"score": 0, "verdict": "WRONG_ANSWER"}}}}
+//   item list [{"id": "Q2_A_1", "score": 0, ...}] or {"items": [...]}
+
+export type ValuePath = (string | number)[];
+
+export interface FlatValue {
+  key: string;
+  value: string;
+  isString: boolean;
+  path: ValuePath;
+}
+
+export function flattenStructured(data: unknown): { values: FlatValue[]; errors: string[] } {
+  const values: FlatValue[] = [];
+  const errors: string[] = [];
+
+  function join(prefix: string, key: string) {
+    return prefix ? `${prefix}_${key}` : key;
+  }
+
+  function visit(value: unknown, prefix: string, path: ValuePath) {
+    if (Array.isArray(value)) {
+      value.forEach((item, idx) => {
+        const record = item as Record<string, unknown> | null;
+        const id = record && typeof record === 'object' && !Array.isArray(record) ? record.id : undefined;
+        if (typeof id !== 'string' && typeof id !== 'number') {
+          errors.push(`${prefix || 'Top-level list'} item ${idx + 1} needs an "id".`);
+          return;
+        }
+        Object.keys(record as Record<string, unknown>).forEach((key) => {
+          if (key === 'id') return;
+          visit((record as Record<string, unknown>)[key], join(join(prefix, String(id)), key), path.concat(idx, key));
+        });
+      });
+      return;
+    }
+
+    if (value && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      Object.keys(record).forEach((key) => {
+        const nextPrefix = !prefix && key === 'items' && Array.isArray(record[key]) ? '' : join(prefix, key);
+        visit(record[key], nextPrefix, path.concat(key));
+      });
+      return;
+    }
+
+    if (!prefix) {
+      errors.push('Expected an object or a list of items.');
+      return;
+    }
+    values.push({
+      key: prefix,
+      value: value === null || value === undefined ? '' : String(value),
+      isString: typeof value === 'string',
+      path
+    });
+  }
+
+  visit(data, '', []);
+  return { values, errors };
+}
+
+// Structured formats have their own quoting, so the quote checks see string values in one pair of quotes.
+export function rawValueOf(flat: FlatValue) {
+  return flat.isString ? `"${flat.value}"` : flat.value;
+}
@@ -0,0 +1,135 @@
+import yaml from 'js-yaml';
+import { lineStartsOf, rangeFromOffsets } from '../sourceRange';
+import type { ReadResult, SourceField } from './shared';
+import { flattenStructured, rawValueOf, type FlatValue } from './structured';
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// js-yaml does not report positions, so keys are found by scanning lines along the value's path:
+// each key is searched for below the previous one, and list items are counted by their dashes.
+function locate(lines: string[], flat: FlatValue) {
+  let cursor = 0;
+  let found = -1;
+  let column = 0;
+  let parentIndent = -1;
+
+  flat.path.forEach((segment) => {
+    if (found === -2) return;
+    if (typeof segment === 'number') {
+      let seen = -1;
+      let dashIndent = -1;
+      for (let i = cursor; i < lines.length; i++) {
+        const dash = lines[i].match(/^(\s*)-(\s|$)/);
+        const indent = lines[i].length - lines[i].trimStart().length;
+        if (lines[i].trim() && indent <= parentIndent && !dash) break;
+        if (!dash || (dashIndent !== -1 && dash[1].length !== dashIndent)) continue;
+        dashIndent = dash[1].length;
+        seen += 1;
+        if (seen === segment) {
+          cursor = i;
+          parentIndent = dashIndent;
+          return;
+        }
+      }
+      found = -2;
+      return;
+    }
+    const pattern = new RegExp(`^(\\s*(?:-\\s+)?)(["']?)${escapeRegExp(segment)}\\2\\s*:(\\s|$)`);
+    for (let i = cursor; i < lines.length; i++) {
+      const match = lines[i].match(pattern);
+      if (!match) continue;
+      found = i;
+      column = match[1].length + match[2].length;
+      parentIndent = match[1].length;
+      cursor = i + 1;
+      return;
+    }
+    found = -2;
+  });
+
+  return found >= 0 ? { line: found, column } : null;
+}
+
+export function readYaml(raw: string): ReadResult {
+  const lineStarts = lineStartsOf(raw);
+  let data: unknown;
+  try {
+    data = yaml.load(raw);
+  } catch (err) {
+    const mark = (err as { mark?: { position?: number } }).mark;
+    const message = err instanceof Error ? err.message.split('\n')[0] : String(err);
+    const position = mark?.position;
+    return {
+      format: 'yaml',
+      fields: [],
+      unparsedLines: [],
+      errors: [
+        {
+          message: `Invalid YAML: ${message}`,
+          range: typeof position === 'number' ? rangeFromOffsets(lineStarts, position, position + 1) : undefined
+        }
+      ]
+    };
+  }
+
+  const lines = raw.split('\n').map((line) => line.replace(/\r$/, ''));
+  const { values, errors } = flattenStructured(data);
+  const fields: SourceField[] = values.map((flat) => {
+    const spot = locate(lines, flat);
+    const lineIndex = spot?.line ?? 0;
+    const lineOffset = lineStarts[lineIndex];
+    const text = lines[lineIndex] ?? '';
+    const keyStart = lineOffset + (spot?.column ?? 0);
+    const segment = String(flat.path[flat.path.length - 1] ?? '');
+    const keyEnd = spot ? keyStart + segment.length : keyStart;
+
+    // Inline scalars map exactly when the written text equals the decoded value; block scalars
+    // and quoted values with escapes only get a range, without offset mapping.
+    const afterColon = spot ? text.slice(text.indexOf(':', keyEnd - lineOffset) + 1) : '';
+    const inline = afterColon.trim();
+    const inlineStart = lineOffset + text.length - afterColon.length + (afterColon.length - afterColon.trimStart().length);
+    let valueStart = inlineStart;
+    let valueEnd = inlineStart + inline.length;
+    let exact = inline === flat.value;
+    if (/^(["']).*\1$/.test(inline)) {
+      valueStart += 1;
+      valueEnd -= 1;
+      exact = inline.slice(1, -1) === flat.value;
+    } else if (spot && (!inline || /^[|>]/.test(inline))) {
+      let last = lineIndex;
+      const indent = text.length - text.trimStart().length;
+      for (let i = lineIndex + 1; i < lines.length; i++) {
+        if (!lines[i].trim()) continue;
+        if (lines[i].length - lines[i].trimStart().length <= indent) break;
+        last = i;
+      }
+      if (last > lineIndex) {
+        const firstLine = lines[lineIndex + 1];
+        valueStart = lineStarts[lineIndex + 1] + (firstLine.length - firstLine.trimStart().length);
+        valueEnd = lineStarts[last] + lines[last].length;
+      }
+      exact = false;
+    }
+
+    return {
+      key: flat.key,
+      value: flat.value,
+      rawValue: rawValueOf(flat),
+      location: {
+        line: rangeFromOffsets(lineStarts, keyStart, Math.max(keyStart, valueEnd)),
+        key: rangeFromOffsets(lineStarts, keyStart, keyEnd),
+        value: rangeFromOffsets(lineStarts, valueStart, valueEnd),
+        segments: exact ? undefined : []
+      }
+    };
+  });
+
+  return {
+    format: 'yaml',
+    fields,
+    unparsedLines: [],
+    errors: errors.map((message) => ({ message }))
+  };
+}
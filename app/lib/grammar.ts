@@ -0,0 +1,122 @@
+import type { Diagnostic } from './diagnostics';
+import type { RubricEntry } from './parseRubric';
+import { justificationKey } from './rubricKeys';
+import { lineStartsOf, valueSpanRange } from './sourceRange';
+
+export const GRAMMAR_RULE_ID = 'grammar';
+
+export interface GrammarIssue {
+  message: string;
+  shortMessage?: string;
+  replacements: string[];
+  context: string;
+  offset: number;
+  length: number;
+  ruleId?: string;
+}
+
+export interface GrammarResult {
+  id: string;
+  issues: GrammarIssue[];
+  error?: string; // set when this item could not be checked
+}
+
+// A justification as it was checked; issue offsets are only valid while the text is unchanged.
+export interface CheckedText {
+  text: string;
+  issues: GrammarIssue[];
+  error?: string;
+}
+
+// Ignored LanguageTool rule ids and words (compared case-insensitively), kept across sessions.
+export interface GrammarIgnores {
+  rules: string[];
+  words: string[];
+}
+
+export function flaggedText(text: string, issue: GrammarIssue) {
+  return text.slice(issue.offset, issue.offset + issue.length);
+}
+
+export function isIgnored(issue: GrammarIssue, text: string, ignores: GrammarIgnores) {
+  if (issue.ruleId && ignores.rules.includes(issue.ruleId)) return true;
+  const word = flaggedText(text, issue).toLowerCase();
+  return ignores.words.some((w) => w.toLowerCase() === word);
+}
+
+// The checked text after replacing one issue's span: that issue goes away and later ones shift.
+export function applyReplacement(checked: CheckedText, issue: GrammarIssue, replacement: string): CheckedText {
+  const delta = replacement.length - issue.length;
+  const end = issue.offset + issue.length;
+  return {
+    text: checked.text.slice(0, issue.offset) + replacement + checked.text.slice(end),
+    issues: checked.issues
+      .filter((other) => other !== issue && (other.offset >= end || other.offset + other.length <= issue.offset))
+      .map((other) => (other.offset >= end ? { ...other, offset: other.offset + delta } : other))
+  };
+}
+
+// Adds issues from another checker, dropping those that overlap one already reported.
+export function mergeIssues(primary: GrammarIssue[], extra: GrammarIssue[]): GrammarIssue[] {
+  const overlaps = (a: GrammarIssue, b: GrammarIssue) => a.offset < b.offset + b.length && b.offset < a.offset + a.length;
+  return primary.concat(extra.filter((issue) => !primary.some((p) => overlaps(p, issue)))).sort((a, b) => a.offset - b.offset);
+}
+
+export type GrammarStatus = 'unchecked' | 'checked' | 'stale' | 'failed';
+
+// What to show for one justification: LanguageTool results while they still match the text,
+// merged with the offline spelling issues (which are always current), minus ignored ones.
+export function visibleIssues(
+  text: string | undefined,
+  checked: CheckedText | undefined,
+  offline: GrammarIssue[] | undefined,
+  ignores: GrammarIgnores
+): { status: GrammarStatus; issues?: GrammarIssue[] } {
+  const status: GrammarStatus = !checked ? 'unchecked' : checked.error ? 'failed' : checked.text === text ? 'checked' : 'stale';
+  if (status !== 'checked' && !offline) return { status };
+  const merged = mergeIssues(status === 'checked' && checked ? checked.issues : [], offline ?? []);
+  return { status, issues: text === undefined ? [] : merged.filter((issue) => !isIgnored(issue, text, ignores)) };
+}
+
+// A short content hash (53-bit cyrb53, base 36) for caching results by text. Caches keep the text
+// next to its results and compare it on a hit, so a collision can never return the wrong issues.
+export function textHash(text: string) {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// The texts sent for grammar checking: one per item with a justification.
+export function grammarItems(entries: RubricEntry[]) {
+  return entries.filter((e) => e.justification).map((e) => ({ id: e.id, text: e.justification as string }));
+}
+
+// Grammar issues as diagnostics, located inside the justification they were found in.
+export function grammarDiagnostics(raw: string, entries: RubricEntry[], results: GrammarResult[]): Diagnostic[] {
+  const lineStarts = lineStartsOf(raw);
+  const diagnostics: Diagnostic[] = [];
+  results.forEach((result) => {
+    const entry = entries.find((e) => e.id === result.id);
+    const key = entry && justificationKey(entry);
+    const location = key ? entry?.locations[key] : undefined;
+    result.issues.forEach((issue) => {
+      const suggestion = issue.replacements.length ? ` (suggestion: ${issue.replacements.slice(0, 3).join(', ')})` : '';
+      diagnostics.push({
+        ruleId: GRAMMAR_RULE_ID,
+        severity: 'warning',
+        message: `${issue.message}${suggestion}`,
+        itemId: result.id,
+        key,
+        range: location && valueSpanRange(lineStarts, location, issue.offset, issue.length)
+      });
+    });
+  });
+  return diagnostics;
+}
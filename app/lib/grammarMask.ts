@@ -0,0 +1,138 @@
+import { ELEMENTS } from './elements';
+
+// Hides text that is not prose (math, code, SMILES, chemical formulas, identifiers) from the grammar
+// checker. Each masked span is replaced by a short placeholder word, and offsets in the masked text
+// are mapped back to the original.
+
+export type MaskKind = 'code' | 'math' | 'latex' | 'url' | 'smiles' | 'formula' | 'identifier';
+
+export interface MaskedSpan {
+  kind: MaskKind;
+  start: number; // in the original text
+  end: number;
+  maskedStart: number; // in the masked text
+  maskedEnd: number;
+}
+
+export interface MaskedText {
+  text: string;
+  spans: MaskedSpan[];
+}
+
+// Reads as a noun, so "the $\Delta G$ is negative" stays a sentence.
+const PLACEHOLDER = 'X';
+
+// Tried in order; earlier patterns win where spans overlap. Inline $...$ follows pandoc: no space
+// inside either dollar and no digit right after the closing one, so "costs $5 but now $10" is prose.
+const SPAN_PATTERNS: { kind: MaskKind; pattern: RegExp }[] = [
+  { kind: 'code', pattern: /```[\s\S]*?```|`[^`\n]+`/g },
+  { kind: 'math', pattern: /\$\$[\s\S]+?\$\$|\$(?=[^\s$])[^$\n]*[^\s$]\$(?!\d)|\\\([\s\S]+?\\\)|\\\[[\s\S]+?\\\]/g },
+  { kind: 'latex', pattern: /\\[A-Za-z]+(?:\{[^{}]*\})*/g },
+  { kind: 'url', pattern: /\bhttps?:\/\/[^\s)]+/g }
+];
+
+// Whitespace-separated tokens, so SMILES with brackets and parentheses stay whole.
+const TOKEN = /[^\s,;]+/g;
+const SMILES_ATOMS = /^(?:Cl|Br|[BCNOPSFI]|[bcnops])+$/;
+const FORMULA = /^(?:[A-Z][a-z]?\d*|\((?:[A-Z][a-z]?\d*)+\)\d*)+(?:\d*[+-])?$/;
+const IDENTIFIER = /^[A-Za-z_][\w]*(?:\.[A-Za-z_]\w+)*(?:\(\))?$/;
+
+// Bracket atoms start with an optional isotope and an element ([Na+], [13CH4], [nH], [C@@H]).
+const BRACKET_ATOM = /^\[\d*(\*|se|as|[bcnops]|([A-Z])([a-z]?))/;
+
+function isBracketAtom(bracket: string) {
+  const m = bracket.match(BRACKET_ATOM);
+  if (!m) return false;
+  return !m[2] || ELEMENTS.has(m[2] + m[3]) || ELEMENTS.has(m[2]);
+}
+
+export function looksLikeSmiles(token: string) {
+  if (token.length < 3 || !/[=#()[\]@/\\\d]/.test(token)) return false;
+  if (!/^[A-Za-z0-9@+\-[\]()=#$\\/%.:*]+$/.test(token)) return false;
+  // Citations such as [1] or [12] are not atoms.
+  const brackets = token.match(/\[[^\]]*\]/g) ?? [];
+  if (!brackets.every(isBracketAtom)) return false;
+  const letters = token.replace(/\[[^\]]*\]/g, '').replace(/[^A-Za-z]/g, '');
+  return letters ? SMILES_ATOMS.test(letters) : token.includes('[');
+}
+
+function looksLikeFormula(token: string) {
+  if (!FORMULA.test(token)) return false;
+  const symbols = token.match(/[A-Z][a-z]?/g) ?? [];
+  if (!symbols.every((symbol) => ELEMENTS.has(symbol))) return false;
+  // H2O, CH3COOH, NaCl. Without a digit, all-caps words (OK, US, IN, NO, SO) and single
+  // capitalised words ("He", "In") are prose; a two-letter symbol (NaCl, HCl) makes it a formula.
+  return /\d/.test(token) || (symbols.length >= 2 && symbols.some((symbol) => symbol.length === 2));
+}
+
+function looksLikeIdentifier(token: string) {
+  if (!IDENTIFIER.test(token)) return false;
+  return (
+    token.includes('_') || // snake_case
+    /[a-z][A-Z]/.test(token) || // camelCase
+    token.endsWith('()') || // call
+    /^[A-Za-z_]\w+(?:\.[A-Za-z_]\w+)+/.test(token) // np.array, main.py (but not "e.g.")
+  );
+}
+
+function tokenKind(token: string): MaskKind | undefined {
+  if (looksLikeSmiles(token)) return 'smiles';
+  if (looksLikeFormula(token)) return 'formula';
+  if (looksLikeIdentifier(token)) return 'identifier';
+  return undefined;
+}
+
+export function maskForGrammar(text: string): MaskedText {
+  const found: { kind: MaskKind; start: number; end: number }[] = [];
+  const taken = (start: number, end: number) => found.some((s) => start < s.end && s.start < end);
+
+  SPAN_PATTERNS.forEach(({ kind, pattern }) => {
+    pattern.lastIndex = 0;
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(text))) {
+      if (!taken(m.index, m.index + m[0].length)) found.push({ kind, start: m.index, end: m.index + m[0].length });
+    }
+  });
+
+  TOKEN.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = TOKEN.exec(text))) {
+    // Leave sentence punctuation and wrapping brackets/quotes to the prose around the token.
+    const lead = m[0].match(/^["'(]*/)?.[0].length ?? 0;
+    let token = m[0].slice(lead);
+    token = token.replace(/["':!?]+$/, '').replace(/\.+$/, '');
+    if (token.endsWith(')') && !token.includes('(')) token = token.slice(0, -1);
+    const start = m.index + lead;
+    const end = start + token.length;
+    if (!token || taken(start, end)) continue;
+    const kind = tokenKind(token);
+    if (kind) found.push({ kind, start, end });
+  }
+
+  found.sort((a, b) => a.start - b.start);
+  const spans: MaskedSpan[] = [];
+  let masked = '';
+  let cursor = 0;
+  found.forEach((span) => {
+    masked += text.slice(cursor, span.start);
+    const maskedStart = masked.length;
+    masked += PLACEHOLDER;
+    spans.push({ ...span, maskedStart, maskedEnd: masked.length });
+    cursor = span.end;
+  });
+  masked += text.slice(cursor);
+  return { text: masked, spans };
+}
+
+// Maps a match in the masked text back to the original. Matches that touch a placeholder are about
+// masked content, so they are dropped (undefined).
+export function unmaskRange(masked: MaskedText, offset: number, length: number): { offset: number; length: number } | undefined {
+  const end = offset + length;
+  let shift = 0;
+  for (const span of masked.spans) {
+    if (span.maskedStart >= end) break;
+    if (offset < span.maskedEnd && span.maskedStart < end) return undefined;
+    shift += span.end - span.start - (span.maskedEnd - span.maskedStart);
+  }
+  return { offset: offset + shift, length };
+}
@@ -0,0 +1,205 @@
+import { buildItemTree, walkTree, type RubricNode } from './itemTree';
+import type { RubricEntry } from './parseRubric';
+import { detectField } from './rubricKeys';
+
+// Structural edits on parsed entries for the form editor. Every edit returns a new entry list
+// with parent scores recomputed; serializeRubric writes it back as key: value text.
+
+export type ItemFields = Partial<Pick<RubricEntry, 'score' | 'verdict' | 'justification'>>;
+
+const FIELD_ORDER = ['score', 'verdict', 'justification'] as const;
+
+function inSubtree(node: RubricNode, id: string) {
+  return id === node.id || id.startsWith(`${node.id}_`);
+}
+
+function findNode(tree: RubricNode[], id: string) {
+  let found: RubricNode | undefined;
+  walkTree(tree, (node) => {
+    if (node.id === id) found = node;
+  });
+  return found;
+}
+
+function parentIdOf(id: string) {
+  const segments = id.split('_');
+  return segments.length > 1 ? segments.slice(0, -1).join('_') : undefined;
+}
+
+// Labels for a sibling list that is numbered (1, 2, 3 or Q1, Q2) or lettered (A, B, C),
+// continuing from the lowest existing one; undefined when the siblings follow no sequence.
+function sequenceOf(segments: string[], count: number): ((index: number) => string) | undefined {
+  if (!segments.length) return undefined;
+  const letters = segments.every((s) => /^[A-Z]$/.test(s)) || segments.every((s) => /^[a-z]$/.test(s));
+  if (letters) {
+    const start = Math.min(...segments.map((s) => s.charCodeAt(0)));
+    const last = segments[0] === segments[0].toUpperCase() ? 90 : 122; // Z or z
+    return start + count - 1 <= last ? (index) => String.fromCharCode(start + index) : undefined;
+  }
+  const numbered = segments.map((s) => s.match(/^(\D*)(\d+)$/));
+  const prefix = numbered[0]?.[1];
+  if (!numbered.every((m) => m && m[1] === prefix)) return undefined;
+  const start = Math.min(...numbered.map((m) => Number((m as RegExpMatchArray)[2])));
+  return (index) => `${prefix}${start + index}`;
+}
+
+// The first label for a new sibling list, styled after other items at the same depth.
+function firstLabel(tree: RubricNode[], depth: number) {
+  let example: string | undefined;
+  walkTree(tree, (node) => {
+    if (node.depth === depth && example === undefined) example = node.segment;
+  });
+  if (example === undefined) return depth === 0 ? 'Q1' : depth === 1 ? 'A' : '1';
+  if (/^[A-Z]$/.test(example)) return 'A';
+  if (/^[a-z]$/.test(example)) return 'a';
+  const numbered = example.match(/^(\D*)\d+$/);
+  return numbered ? `${numbered[1]}1` : '1';
+}
+
+function labelsFor(before: RubricNode[], after: RubricNode[], fallback: string) {
+  const sequence = sequenceOf(before.length ? before.map((node) => node.segment) : [fallback], after.length);
+  if (sequence) return after.map((_, index) => sequence(index));
+  // Unsequenced siblings keep their labels; a reorder swaps them, copies get a suffix.
+  if (before.length === after.length) return before.map((node) => node.segment);
+  const taken = new Set<string>();
+  return after.map((node) => {
+    const base = node.segment || String(after.length);
+    let label = base;
+    for (let n = 2; taken.has(label); n++) label = `${base}${n}`;
+    taken.add(label);
+    return label;
+  });
+}
+
+// The entries under `node`, moved to `id` (raw keys are renamed with them).
+function renamed(node: RubricNode, id: string): RubricEntry[] {
+  const entries: RubricEntry[] = [];
+  walkTree([node], (child) => {
+    if (!child.entry) return;
+    const entry = child.entry;
+    const nextId = id + entry.id.slice(node.id.length);
+    const raw: Record<string, string> = {};
+    Object.keys(entry.raw).forEach((key) => {
+      raw[key.startsWith(entry.id) ? nextId + key.slice(entry.id.length) : key] = entry.raw[key];
+    });
+    entries.push({ ...entry, id: nextId, raw, locations: {} });
+  });
+  return entries;
+}
+
+// Rewrites one sibling list (the children of `parentId`, or the questions) and renumbers it.
+function editSiblings(entries: RubricEntry[], parentId: string | undefined, edit: (siblings: RubricNode[]) => RubricNode[]) {
+  const tree = buildItemTree(entries);
+  const parent = parentId === undefined ? undefined : findNode(tree, parentId);
+  const siblings = parent ? parent.children : tree;
+  const next = edit(siblings.slice());
+  const labels = labelsFor(siblings, next, firstLabel(tree, parent ? parent.depth + 1 : 0));
+  const prefix = parentId === undefined ? '' : `${parentId}_`;
+  const others = entries.filter((entry) => !siblings.some((node) => inSubtree(node, entry.id)));
+  const moved = next.reduce<RubricEntry[]>((all, node, index) => all.concat(renamed(node, prefix + labels[index])), []);
+  return recomputeTotals(others.concat(moved));
+}
+
+// Parent scores become the sum of their children, bottom-up; parents without a score stay so.
+export function recomputeTotals(entries: RubricEntry[]): RubricEntry[] {
+  const totals = new Map<string, number>();
+  function total(node: RubricNode): number {
+    if (!node.children.length) return node.entry?.score ?? 0;
+    const sum = Number(node.children.reduce((acc, child) => acc + total(child), 0).toFixed(6));
+    if (typeof node.entry?.score === 'number') totals.set(node.id, sum);
+    return sum;
+  }
+  buildItemTree(entries).forEach(total);
+  return entries.map((entry) => (totals.has(entry.id) ? withFields(entry, { score: totals.get(entry.id) }) : entry));
+}
+
+function withFields(entry: RubricEntry, fields: ItemFields): RubricEntry {
+  const next: RubricEntry = { ...entry, ...fields, raw: { ...entry.raw } };
+  FIELD_ORDER.forEach((field) => {
+    if (!(field in fields)) return;
+    const key = Object.keys(entry.raw).find((k) => detectField(k) === field) ?? `${entry.id}_${field}`;
+    const value = fields[field];
+    if (value === undefined) delete next.raw[key];
+    else next.raw[key] = String(value);
+  });
+  return next;
+}
+
+export function updateItem(entries: RubricEntry[], id: string, fields: ItemFields) {
+  return recomputeTotals(entries.map((entry) => (entry.id === id ? withFields(entry, fields) : entry)));
+}
+
+function newNode(): RubricNode {
+  const entry: RubricEntry = { id: '', score: 0, verdict: 'WRONG_ANSWER', justification: '', raw: {}, locations: {} };
+  return { id: '', segment: '', depth: 0, entry, children: [] };
+}
+
+// A new item at the end of `parentId`'s sub-items (or a new question).
+export function addItem(entries: RubricEntry[], parentId?: string) {
+  return editSiblings(entries, parentId, (siblings) => siblings.concat(newNode()));
+}
+
+export function removeItem(entries: RubricEntry[], id: string) {
+  return editSiblings(entries, parentIdOf(id), (siblings) => siblings.filter((node) => node.id !== id));
+}
+
+// Copies an item and its sub-items right after it.
+export function duplicateItem(entries: RubricEntry[], id: string) {
+  return editSiblings(entries, parentIdOf(id), (siblings) => {
+    const index = siblings.findIndex((node) => node.id === id);
+    if (index < 0) return siblings;
+    return siblings.slice(0, index + 1).concat(siblings[index], siblings.slice(index + 1));
+  });
+}
+
+export function moveItem(entries: RubricEntry[], id: string, direction: -1 | 1) {
+  return editSiblings(entries, parentIdOf(id), (siblings) => {
+    const index = siblings.findIndex((node) => node.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= siblings.length) return siblings;
+    const next = siblings.slice();
+    next[index] = siblings[target];
+    next[target] = siblings[index];
+    return next;
+  });
+}
+
+// Values are written bare unless the reader would change them: multi-line text and text that
+// starts with a quote are "quoted", with \" escapes. Verdicts are always quoted.
+function encode(value: string, quoted = false) {
+  if (quoted || value.includes('\n') || value.startsWith('"')) {
+    return `"${value.replace(/"/g, '\\"')}"`;
+  }
+  return value;
+}
+
+function line(key: string, value: string) {
+  return value ? `${key}: ${value}` : `${key}:`;
+}
+
+// The team's key: value layout: items in id order (parents first), score, verdict and
+// justification in that order, other keys after them, and a blank line between items.
+export function serializeRubric(entries: RubricEntry[]) {
+  const blocks: string[] = [];
+  walkTree(buildItemTree(entries), (node) => {
+    const entry = node.entry;
+    if (!entry) return;
+    const keys = Object.keys(entry.raw);
+    const lines: string[] = [];
+    FIELD_ORDER.forEach((field) => {
+      const key = keys.find((k) => detectField(k) === field);
+      if (field === 'score' && entry.score !== undefined) {
+        lines.push(line(key ?? `${entry.id}_score`, String(Number(entry.score.toFixed(6)))));
+      } else if (field === 'score' && key) {
+        lines.push(line(key, encode(entry.raw[key])));
+      } else if (field === 'verdict' && entry.verdict !== undefined) {
+        lines.push(line(key ?? `${entry.id}_verdict`, entry.verdict ? encode(entry.verdict, true) : ''));
+      } else if (field === 'justification' && entry.justification !== undefined) {
+        lines.push(line(key ?? `${entry.id}_justification`, encode(entry.justification)));
+      }
+    });
+    keys.filter((k) => detectField(k) === 'other').forEach((k) => lines.push(line(k, encode(entry.raw[k]))));
+    if (lines.length) blocks.push(lines.join('\n'));
+  });
+  return blocks.join('\n\n');
+}
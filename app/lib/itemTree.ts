@@ -0,0 +1,71 @@
+import type { RubricEntry } from './parseRubric';
+
+// Ids are split on underscores: Q2_A_1 lives under Q2 -> A -> 1. Intermediate nodes exist even
+// when the rubric has no keys for them (e.g., Q2_A without a Q2_A_score subtotal).
+export interface RubricNode {
+  id: string;
+  segment: string; // last id segment, e.g. "1" for Q2_A_1
+  depth: number; // 0 for top-level questions
+  entry?: RubricEntry;
+  children: RubricNode[];
+}
+
+function compareSegments(a: RubricNode, b: RubricNode) {
+  const na = Number(a.segment);
+  const nb = Number(b.segment);
+  if (!Number.isNaN(na) && !Number.isNaN(nb)) return na - nb;
+  return a.segment.localeCompare(b.segment);
+}
+
+export function buildItemTree(entries: RubricEntry[]): RubricNode[] {
+  const roots: RubricNode[] = [];
+  const nodes = new Map<string, RubricNode>();
+
+  function nodeFor(id: string): RubricNode {
+    const existing = nodes.get(id);
+    if (existing) return existing;
+    const segments = id.split('_');
+    const node: RubricNode = { id, segment: segments[segments.length - 1], depth: segments.length - 1, children: [] };
+    nodes.set(id, node);
+    if (segments.length === 1) {
+      roots.push(node);
+    } else {
+      nodeFor(segments.slice(0, -1).join('_')).children.push(node);
+    }
+    return node;
+  }
+
+  entries.forEach((entry) => {
+    nodeFor(entry.id).entry = entry;
+  });
+
+  function sortChildren(list: RubricNode[]) {
+    list.sort(compareSegments);
+    list.forEach((node) => sortChildren(node.children));
+  }
+  sortChildren(roots);
+  return roots;
+}
+
+export function isLeaf(node: RubricNode) {
+  return node.children.length === 0;
+}
+
+// Depth-first, parents before children.
+export function walkTree(nodes: RubricNode[], visit: (node: RubricNode) => void) {
+  nodes.forEach((node) => {
+    visit(node);
+    walkTree(node.children, visit);
+  });
+}
+
+export function leavesOf(node: RubricNode): RubricNode[] {
+  if (isLeaf(node)) return [node];
+  return node.children.reduce<RubricNode[]>((acc, child) => acc.concat(leavesOf(child)), []);
+}
+
+// What a node's score should be: the sum of the leaf scores under it. Reported subtotals in
+// between are not used, so a wrong Q2_A_score does not carry into what Q2_score should be.
+export function computedSubtotal(node: RubricNode): number {
+  return leavesOf(node).reduce((sum, leaf) => sum + (leaf.entry?.score ?? 0), 0);
+}
@@ -0,0 +1,241 @@
+import { textHash, type GrammarIssue, type GrammarResult } from './grammar';
+import { maskForGrammar, unmaskRange } from './grammarMask';
+
+// Server-side LanguageTool client, shared by /api/grammar, /api/check and the CLI.
+
+export interface GrammarRequestItem {
+  id: string;
+  text: string;
+}
+
+interface LanguageToolMatch {
+  message: string;
+  shortMessage?: string;
+  replacements?: { value: string }[];
+  context?: { text: string };
+  offset?: number;
+  length?: number;
+  rule?: { id?: string };
+}
+
+export type LanguageToolLevel = 'default' | 'picky';
+
+export interface LanguageToolOptions {
+  url: string; // any LanguageTool-compatible /v2/check endpoint
+  language: string;
+  level: LanguageToolLevel;
+  concurrency: number; // requests in flight at once
+  timeoutMs: number; // per attempt
+  retries: number; // extra attempts after a 429, a 5xx, a timeout or a network error
+  cacheSize: number; // texts whose results are kept in memory; 0 turns the cache off
+}
+
+export const DEFAULT_LANGUAGETOOL_URL = 'https://api.languagetool.org/v2/check';
+
+export const DEFAULT_LANGUAGETOOL_OPTIONS: LanguageToolOptions = {
+  url: DEFAULT_LANGUAGETOOL_URL,
+  language: 'en-US',
+  level: 'picky',
+  concurrency: 4,
+  timeoutMs: 15000,
+  retries: 2,
+  cacheSize: 1000
+};
+
+const MAX_RETRY_DELAY_MS = 10000;
+
+function positiveInt(value: string | undefined, fallback: number) {
+  const numeric = Number(value);
+  return value && Number.isInteger(numeric) && numeric >= 0 ? numeric : fallback;
+}
+
+// LANGUAGETOOL_URL, _LANGUAGE, _LEVEL, _CONCURRENCY, _TIMEOUT_MS, _RETRIES and _CACHE_SIZE override the defaults.
+export function languageToolOptionsFromEnv(env: Record<string, string | undefined> = process.env): LanguageToolOptions {
+  const defaults = DEFAULT_LANGUAGETOOL_OPTIONS;
+  return {
+    url: env.LANGUAGETOOL_URL || defaults.url,
+    language: env.LANGUAGETOOL_LANGUAGE || defaults.language,
+    level: env.LANGUAGETOOL_LEVEL === 'default' ? 'default' : defaults.level,
+    concurrency: Math.max(1, positiveInt(env.LANGUAGETOOL_CONCURRENCY, defaults.concurrency)),
+    timeoutMs: Math.max(1, positiveInt(env.LANGUAGETOOL_TIMEOUT_MS, defaults.timeoutMs)),
+    retries: positiveInt(env.LANGUAGETOOL_RETRIES, defaults.retries),
+    cacheSize: positiveInt(env.LANGUAGETOOL_CACHE_SIZE, defaults.cacheSize)
+  };
+}
+
+export interface LanguageToolOverrides {
+  language?: unknown;
+  level?: unknown;
+  url?: unknown;
+}
+
+// Per-request language/level on top of the env settings. A request may only choose the URL when
+// LANGUAGETOOL_ALLOW_URL_OVERRIDE is set, so a public deployment cannot be made to call arbitrary hosts.
+export function languageToolOptionsFor(
+  overrides: LanguageToolOverrides,
+  env: Record<string, string | undefined> = process.env
+): LanguageToolOptions {
+  const options = languageToolOptionsFromEnv(env);
+  if (overrides.language !== undefined) {
+    if (typeof overrides.language !== 'string' || !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$|^auto$/.test(overrides.language)) {
+      throw new Error('language must be a LanguageTool language code such as "en-US".');
+    }
+    options.language = overrides.language;
+  }
+  if (overrides.level !== undefined) {
+    if (overrides.level !== 'default' && overrides.level !== 'picky') throw new Error('level must be "default" or "picky".');
+    options.level = overrides.level;
+  }
+  if (overrides.url !== undefined) {
+    if (!env.LANGUAGETOOL_ALLOW_URL_OVERRIDE) throw new Error('url cannot be set per request on this server.');
+    if (typeof overrides.url !== 'string' || !/^https?:\/\//.test(overrides.url)) throw new Error('url must be an http(s) URL.');
+    options.url = overrides.url;
+  }
+  return options;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Exponential backoff with jitter; a Retry-After header (in seconds) wins when present.
+function retryDelay(attempt: number, retryAfter: string | null) {
+  const seconds = Number(retryAfter);
+  if (retryAfter && !Number.isNaN(seconds)) return Math.min(seconds * 1000, MAX_RETRY_DELAY_MS);
+  return Math.min(500 * 2 ** attempt + Math.random() * 250, MAX_RETRY_DELAY_MS);
+}
+
+async function postOnce(text: string, options: LanguageToolOptions) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+  try {
+    return await fetch(options.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: new URLSearchParams({ text, language: options.language, level: options.level }),
+      credentials: 'omit',
+      signal: controller.signal
+    });
+  } catch (err) {
+    const aborted = err instanceof Error && err.name === 'AbortError';
+    throw new Error(aborted ? `LanguageTool did not answer within ${options.timeoutMs} ms` : `LanguageTool is unreachable at ${options.url}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function contextOf(text: string, offset: number, length: number) {
+  const start = Math.max(0, offset - 20);
+  return text.slice(start, offset + length + 20);
+}
+
+export async function checkText(text: string, options: LanguageToolOptions = DEFAULT_LANGUAGETOOL_OPTIONS): Promise<GrammarIssue[]> {
+  // Math, code, SMILES, formulas and identifiers are masked so they are not "corrected".
+  const masked = maskForGrammar(text);
+  let response: Response | undefined;
+  for (let attempt = 0; ; attempt++) {
+    let retryAfter: string | null = null;
+    try {
+      response = await postOnce(masked.text, options);
+      if (response.ok || (response.status !== 429 && response.status < 500)) break;
+      retryAfter = response.headers.get('Retry-After');
+    } catch (err) {
+      if (attempt >= options.retries) throw err;
+    }
+    if (attempt >= options.retries) break;
+    await sleep(retryDelay(attempt, retryAfter));
+  }
+
+  if (!response?.ok) {
+    const message = response ? await response.text() : '';
+    throw new Error(`LanguageTool error (${response?.status}): ${message}`);
+  }
+
+  const data = (await response.json()) as { matches?: LanguageToolMatch[] };
+  const issues: GrammarIssue[] = [];
+  (data.matches || []).forEach((match) => {
+    const range = unmaskRange(masked, match.offset ?? 0, match.length ?? 0);
+    if (!range) return;
+    issues.push({
+      message: match.message,
+      shortMessage: match.shortMessage,
+      replacements: (match.replacements || []).map((r) => r.value),
+      context: contextOf(text, range.offset, range.length),
+      offset: range.offset,
+      length: range.length,
+      ruleId: match.rule?.id
+    });
+  });
+  return issues;
+}
+
+// Results of successful checks by endpoint, language, level and text, least recently used first.
+// Only texts that were checked without an error are kept.
+const resultCache = new Map<string, { text: string; issues: GrammarIssue[] }>();
+
+function cacheKey(text: string, options: LanguageToolOptions) {
+  return `${options.url}|${options.language}|${options.level}|${textHash(text)}`;
+}
+
+function cachedIssues(text: string, options: LanguageToolOptions) {
+  const key = cacheKey(text, options);
+  const hit = resultCache.get(key);
+  if (!hit || hit.text !== text) return undefined;
+  resultCache.delete(key);
+  resultCache.set(key, hit);
+  return hit.issues;
+}
+
+function rememberIssues(text: string, issues: GrammarIssue[], options: LanguageToolOptions) {
+  if (options.cacheSize <= 0) return;
+  resultCache.set(cacheKey(text, options), { text, issues });
+  while (resultCache.size > options.cacheSize) resultCache.delete(resultCache.keys().next().value as string);
+}
+
+export interface GrammarCheckHooks {
+  onResult?: (result: GrammarResult) => void; // called for each item as soon as it is known
+  signal?: AbortSignal; // stops starting new requests; items not yet started are left out
+}
+
+// Checks every item with at most `concurrency` requests in flight. A failing item gets an
+// `error` instead of failing the batch. Identical texts are sent once, and texts checked before
+// (with the same endpoint, language and level) come from the cache without a request.
+export async function checkGrammar(
+  items: GrammarRequestItem[],
+  options: LanguageToolOptions = DEFAULT_LANGUAGETOOL_OPTIONS,
+  hooks: GrammarCheckHooks = {}
+): Promise<GrammarResult[]> {
+  const results: (GrammarResult | undefined)[] = new Array(items.length);
+  const settle = (index: number, result: GrammarResult) => {
+    results[index] = result;
+    hooks.onResult?.(result);
+  };
+
+  const pending = new Map<string, number[]>(); // text -> indexes of the items with that text
+  items.forEach((item, index) => {
+    const cached = options.cacheSize > 0 ? cachedIssues(item.text, options) : undefined;
+    if (cached) settle(index, { id: item.id, issues: cached });
+    else pending.set(item.text, (pending.get(item.text) ?? []).concat(index));
+  });
+
+  const texts = Array.from(pending.keys());
+  let next = 0;
+  async function worker() {
+    while (next < texts.length && !hooks.signal?.aborted) {
+      const text = texts[next++];
+      let issues: GrammarIssue[] = [];
+      let error: string | undefined;
+      try {
+        issues = await checkText(text, options);
+        rememberIssues(text, issues, options);
+      } catch (err) {
+        error = err instanceof Error ? err.message : 'Grammar check failed.';
+      }
+      (pending.get(text) ?? []).forEach((index) => settle(index, { id: items[index].id, issues, error }));
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, texts.length) }, worker));
+  return results.filter((result): result is GrammarResult => result !== undefined);
+}
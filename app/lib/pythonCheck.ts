@@ -0,0 +1,313 @@
+import { spawn } from 'child_process';
+
+// Checks Python code blocks from a model response with the server's own python3: a compile check
+// for every block and, when enabled, a run in a sandbox with time, memory, process and network
+// limits: an unprivileged user, no network, a read-only file system and a throwaway tmpfs as the
+// working directory. A server that cannot set that up does not run code at all.
+
+export interface PythonCheckOptions {
+  python: string; // interpreter to spawn
+  execute: boolean; // whether running blocks is allowed at all
+  timeoutMs: number; // wall-clock limit per run
+  memoryMb: number; // address-space limit per run
+}
+
+export type PythonErrorKind = 'syntax' | 'runtime' | 'timeout' | 'memory';
+
+export interface PythonError {
+  kind: PythonErrorKind;
+  message: string;
+  line?: number; // 1-based, within the block
+  column?: number;
+}
+
+export interface PythonBlockResult {
+  index: number;
+  ok: boolean;
+  executed: boolean;
+  error?: PythonError;
+  stdout?: string;
+  stderr?: string;
+  durationMs?: number;
+}
+
+export interface PythonCheckResult {
+  available: boolean;
+  version?: string;
+  error?: string; // why nothing could be checked (e.g. python3 is not installed)
+  results: PythonBlockResult[];
+}
+
+export const DEFAULT_PYTHON_OPTIONS: PythonCheckOptions = {
+  python: 'python3',
+  execute: false,
+  timeoutMs: 5000,
+  memoryMb: 512
+};
+
+const OUTPUT_LIMIT = 20_000;
+const ERROR_MARKER = '__RUBRIC_CHECKER_ERROR__';
+
+const COMPILE_SCRIPT = `
+import json, sys
+results = []
+for source in json.load(sys.stdin):
+    try:
+        compile(source, '<block>', 'exec')
+        results.append(None)
+    except SyntaxError as e:
+        results.append({'line': e.lineno, 'column': e.offset, 'message': '%s: %s' % (type(e).__name__, e.msg)})
+    except (ValueError, OverflowError) as e:
+        results.append({'message': '%s: %s' % (type(e).__name__, e)})
+json.dump({'version': sys.version.split()[0], 'results': results}, sys.stdout)
+`;
+
+const RUN_SCRIPT = `
+import json, sys, traceback
+try:
+    import resource
+    memory = int(sys.argv[1]) * 1024 * 1024
+    resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+    seconds = int(sys.argv[2])
+    resource.setrlimit(resource.RLIMIT_CPU, (seconds, seconds))
+    resource.setrlimit(resource.RLIMIT_NPROC, (0, 0))
+except (ImportError, ValueError, OSError):
+    pass
+source = sys.stdin.read()
+try:
+    exec(compile(source, '<block>', 'exec'), {'__name__': '__main__'})
+except SystemExit:
+    raise
+except BaseException as e:
+    frames = traceback.extract_tb(sys.exc_info()[2])
+    line = next((f.lineno for f in reversed(frames) if f.filename == '<block>'), None)
+    traceback.print_exc()
+    kind = 'memory' if isinstance(e, MemoryError) else 'runtime'
+    message = type(e).__name__ + (': %s' % e if str(e) else '')
+    sys.stderr.write('\\n${ERROR_MARKER}' + json.dumps({'kind': kind, 'line': line, 'message': message}))
+    sys.exit(1)
+`;
+
+function positiveNumber(value: string | undefined, fallback: number) {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+export function pythonOptionsFromEnv(env: Record<string, string | undefined> = process.env): PythonCheckOptions {
+  return {
+    python: env.PYTHON_BIN || DEFAULT_PYTHON_OPTIONS.python,
+    execute: env.PYTHON_EXECUTION === '1' || env.PYTHON_EXECUTION === 'true',
+    timeoutMs: positiveNumber(env.PYTHON_TIMEOUT_MS, DEFAULT_PYTHON_OPTIONS.timeoutMs),
+    memoryMb: positiveNumber(env.PYTHON_MEMORY_MB, DEFAULT_PYTHON_OPTIONS.memoryMb)
+  };
+}
+
+interface ProcessResult {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  missing: boolean; // the interpreter could not be started
+}
+
+const EXIT_GRACE_MS = 200;
+
+function runProcess(
+  command: string,
+  args: string[],
+  input: string,
+  options: { env?: Record<string, string | undefined>; timeoutMs: number }
+): Promise<ProcessResult> {
+  return new Promise((resolve) => {
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+    let settled = false;
+    let exited: Omit<ProcessResult, 'stdout' | 'stderr' | 'timedOut'> | undefined;
+    const finish = (result: Omit<ProcessResult, 'stdout' | 'stderr' | 'timedOut'>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      resolve({ ...result, stdout, stderr, timedOut });
+    };
+
+    // Its own process group, so a timeout also takes down anything the code started.
+    const child = spawn(command, args, {
+      env: options.env as NodeJS.ProcessEnv | undefined,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      detached: true
+    });
+    const killGroup = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        // Already gone.
+      }
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, options.timeoutMs);
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (stdout.length < OUTPUT_LIMIT) stdout += chunk.toString('utf8');
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      if (stderr.length < OUTPUT_LIMIT * 2) stderr += chunk.toString('utf8');
+    });
+    child.on('error', (err: NodeJS.ErrnoException) => finish({ code: null, signal: null, missing: err.code === 'ENOENT' }));
+    // Leftover processes could keep the pipes (and the request) open, so the result is settled
+    // on exit; 'close' only lets the last output arrive first when nothing holds the pipes.
+    child.on('exit', (code, signal) => {
+      exited = { code, signal, missing: false };
+      killGroup();
+      setTimeout(() => finish(exited as NonNullable<typeof exited>), EXIT_GRACE_MS);
+    });
+    child.on('close', () => {
+      if (exited) finish(exited);
+    });
+    // The child may exit before reading its input (e.g. a bad interpreter); that is reported via exit.
+    child.stdin.on('error', () => undefined);
+    child.stdin.end(input);
+  });
+}
+
+const NOBODY = 65534;
+const TMPFS_MB = 64;
+
+// As root: every mount is remounted read-only in a private mount namespace, a fresh tmpfs goes on
+// /tmp, and the program is started as nobody without capabilities, all with no network.
+const ROOT_SETUP = `set -e
+findmnt -rno TARGET | while read -r target; do mount -o remount,bind,ro "$(printf '%b' "$target")"; done
+mount -t tmpfs -o size=${TMPFS_MB}m,mode=1777 tmpfs /tmp
+cd /tmp
+exec setpriv --reuid=${NOBODY} --regid=${NOBODY} --clear-groups --no-new-privs --bounding-set=-all --inh-caps=-all "$@"`;
+const ROOT_SANDBOX = ['unshare', '--net', '--mount', '--propagation', 'private', 'sh', '-c', ROOT_SETUP, 'sh'];
+
+// As any other user: the same through bwrap's user namespace (the server's uid outside it).
+const USER_SANDBOX = [
+  'bwrap',
+  '--unshare-all',
+  '--unshare-user',
+  '--uid',
+  String(NOBODY),
+  '--gid',
+  String(NOBODY),
+  '--die-with-parent',
+  '--ro-bind',
+  '/',
+  '/',
+  '--dev',
+  '/dev',
+  '--proc',
+  '/proc',
+  '--tmpfs',
+  '/tmp',
+  '--chdir',
+  '/tmp'
+];
+let sandboxProbe: Promise<string[] | undefined> | undefined;
+
+// The command prefix that runs a program in the sandbox, found once per server by starting the
+// interpreter through it; undefined when it cannot be set up (no namespaces, no bwrap, or an
+// interpreter nobody may read).
+export function runSandbox(python: string): Promise<string[] | undefined> {
+  sandboxProbe =
+    sandboxProbe ??
+    (async () => {
+      const prefix = process.getuid?.() === 0 ? ROOT_SANDBOX : USER_SANDBOX;
+      const probe = await runProcess(prefix[0], [...prefix.slice(1), python, '-c', 'pass'], '', { timeoutMs: 5000 });
+      return probe.code === 0 ? prefix : undefined;
+    })();
+  return sandboxProbe;
+}
+
+function truncate(text: string) {
+  return text.length > OUTPUT_LIMIT ? `${text.slice(0, OUTPUT_LIMIT)}\n… (output truncated)` : text;
+}
+
+async function runBlock(source: string, index: number, options: PythonCheckOptions, sandbox: string[]): Promise<PythonBlockResult> {
+  const started = Date.now();
+  const seconds = Math.max(1, Math.ceil(options.timeoutMs / 1000));
+  const args = [...sandbox.slice(1), options.python, '-I', '-c', RUN_SCRIPT, String(options.memoryMb), String(seconds)];
+  const run = await runProcess(sandbox[0], args, source, {
+    // A minimal environment: no credentials or proxies from the server leak into the run. Numeric
+    // libraries are kept to one thread, since the run may not start new processes or threads.
+    env: {
+      PATH: process.env.PATH,
+      HOME: '/tmp',
+      TMPDIR: '/tmp',
+      MPLBACKEND: 'Agg',
+      PYTHONDONTWRITEBYTECODE: '1',
+      OMP_NUM_THREADS: '1',
+      OPENBLAS_NUM_THREADS: '1'
+    },
+    timeoutMs: options.timeoutMs
+  });
+  const durationMs = Date.now() - started;
+  const markerAt = run.stderr.lastIndexOf(ERROR_MARKER);
+  const stderr = truncate(markerAt === -1 ? run.stderr : run.stderr.slice(0, markerAt).trimEnd());
+  const base = { index, executed: true, stdout: truncate(run.stdout), stderr, durationMs };
+
+  if (run.timedOut || run.signal === 'SIGXCPU') {
+    return { ...base, ok: false, error: { kind: 'timeout', message: `Stopped after ${options.timeoutMs} ms.` } };
+  }
+  if (markerAt !== -1) {
+    try {
+      const reported = JSON.parse(run.stderr.slice(markerAt + ERROR_MARKER.length)) as PythonError;
+      return { ...base, ok: false, error: { ...reported, line: reported.line ?? undefined } };
+    } catch {
+      // Fall through to the exit status.
+    }
+  }
+  if (run.code !== 0) {
+    const killed = run.signal ? ` (killed by ${run.signal})` : '';
+    const memory = /MemoryError|Cannot allocate memory/.test(run.stderr);
+    return {
+      ...base,
+      ok: false,
+      error: memory
+        ? { kind: 'memory', message: `Ran out of memory (limit ${options.memoryMb} MB).` }
+        : { kind: 'runtime', message: `Exited with status ${run.code ?? 'unknown'}${killed}.` }
+    };
+  }
+  return { ...base, ok: true };
+}
+
+// Never throws: a missing interpreter or a crashed check is reported in `available` / `error`.
+// Blocks are only run when `runSandbox` could set up the sandbox.
+export async function checkPython(blocks: string[], options: PythonCheckOptions, execute = false): Promise<PythonCheckResult> {
+  const compiled = await runProcess(options.python, ['-I', '-c', COMPILE_SCRIPT], JSON.stringify(blocks), {
+    timeoutMs: Math.max(options.timeoutMs, 10_000)
+  });
+  if (compiled.missing) {
+    return {
+      available: false,
+      error: `${options.python} is not installed on the server, so Python blocks cannot be checked here. Install Python 3 or set PYTHON_BIN.`,
+      results: []
+    };
+  }
+
+  let parsed: { version: string; results: ({ line?: number; column?: number; message: string } | null)[] };
+  try {
+    parsed = JSON.parse(compiled.stdout);
+  } catch {
+    const detail = compiled.timedOut ? 'it timed out' : compiled.stderr.trim().split('\n').pop() || `exit status ${compiled.code}`;
+    return { available: false, error: `${options.python} could not check the code (${detail}).`, results: [] };
+  }
+
+  const sandbox = execute && options.execute ? await runSandbox(options.python) : undefined;
+  const results: PythonBlockResult[] = [];
+  // One run at a time keeps a burst of blocks from starving the server.
+  for (let index = 0; index < blocks.length; index++) {
+    const syntax = parsed.results[index];
+    if (syntax) {
+      results.push({ index, ok: false, executed: false, error: { kind: 'syntax', ...syntax, line: syntax.line ?? undefined } });
+    } else if (sandbox) {
+      results.push(await runBlock(blocks[index], index, options, sandbox));
+    } else {
+      results.push({ index, ok: true, executed: false });
+    }
+  }
+  return { available: true, version: parsed.version, results };
+}
@@ -0,0 +1,85 @@
+import { countBySeverity, type Diagnostic, type Severity } from './diagnostics';
+import type { RubricFormat } from './formats';
+import { grammarDiagnostics, type GrammarResult } from './grammar';
+import type { ParseResult } from './parseRubric';
+import type { SourceRange } from './sourceRange';
+
+// Machine-readable check results. Bump REPORT_VERSION when a field changes meaning or goes away;
+// adding fields is not a breaking change.
+export const REPORT_VERSION = 1;
+
+export interface ReportEntry {
+  id: string;
+  score?: number;
+  verdict?: string;
+  justification?: string;
+}
+
+export interface ReportDiagnostic {
+  ruleId: string;
+  severity: Severity;
+  message: string;
+  itemId?: string;
+  key?: string;
+  range?: SourceRange;
+  fixable: boolean;
+}
+
+export interface RubricReport {
+  version: number;
+  file?: string;
+  format: RubricFormat;
+  totals: {
+    expectedTotal: number;
+    possibleTotal?: number;
+    items: number;
+    wrongVerdicts: number;
+  };
+  counts: Record<Severity, number>;
+  entries: ReportEntry[];
+  diagnostics: ReportDiagnostic[];
+  grammarErrors?: { itemId: string; message: string }[]; // items the grammar check could not reach
+  responseDiagnostics?: ReportDiagnostic[]; // model response lint; ranges point into the response
+}
+
+export interface ReportOptions {
+  file?: string;
+  raw?: string; // the rubric text; needed to locate grammar issues
+  grammar?: GrammarResult[];
+  responseLint?: Diagnostic[]; // from lintResponse, when a model response was checked
+}
+
+function reportDiagnostic(d: Diagnostic): ReportDiagnostic {
+  return {
+    ruleId: d.ruleId,
+    severity: d.severity,
+    message: d.message,
+    itemId: d.itemId,
+    key: d.key,
+    range: d.range,
+    fixable: !!d.fix
+  };
+}
+
+export function buildReport(parsed: ParseResult, options: ReportOptions = {}): RubricReport {
+  const { file, raw = '', grammar, responseLint } = options;
+  const extra: Diagnostic[] = grammar ? grammarDiagnostics(raw, parsed.entries, grammar) : [];
+  const diagnostics = parsed.diagnostics.concat(extra);
+  const grammarErrors = grammar?.filter((r) => r.error).map((r) => ({ itemId: r.id, message: r.error as string }));
+  return {
+    version: REPORT_VERSION,
+    file,
+    format: parsed.format,
+    totals: {
+      expectedTotal: parsed.expectedTotal,
+      possibleTotal: parsed.possibleTotal,
+      items: parsed.entries.length,
+      wrongVerdicts: parsed.wrongVerdicts
+    },
+    counts: countBySeverity(diagnostics),
+    entries: parsed.entries.map((e) => ({ id: e.id, score: e.score, verdict: e.verdict, justification: e.justification })),
+    diagnostics: diagnostics.map(reportDiagnostic),
+    grammarErrors: grammarErrors?.length ? grammarErrors : undefined,
+    responseDiagnostics: responseLint?.map(reportDiagnostic)
+  };
+}
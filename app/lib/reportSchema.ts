@@ -0,0 +1,88 @@
+import { SEVERITIES } from './diagnostics';
+import { REPORT_VERSION } from './report';
+
+// JSON Schema for RubricReport, served at GET /api/check/schema. Keep in step with report.ts.
+const range = {
+  type: 'object',
+  required: ['line', 'startColumn', 'endColumn', 'startOffset', 'endOffset'],
+  properties: {
+    line: { type: 'integer', minimum: 1 },
+    startColumn: { type: 'integer', minimum: 1 },
+    endLine: { type: 'integer', minimum: 1 },
+    endColumn: { type: 'integer', minimum: 1 },
+    startOffset: { type: 'integer', minimum: 0 },
+    endOffset: { type: 'integer', minimum: 0 }
+  }
+};
+
+const counts = {
+  type: 'object',
+  required: SEVERITIES,
+  properties: Object.fromEntries(SEVERITIES.map((s) => [s, { type: 'integer', minimum: 0 }]))
+};
+
+const diagnostic = {
+  type: 'object',
+  required: ['ruleId', 'severity', 'message', 'fixable'],
+  properties: {
+    ruleId: { type: 'string' },
+    severity: { enum: SEVERITIES },
+    message: { type: 'string' },
+    itemId: { type: 'string' },
+    key: { type: 'string' },
+    range,
+    fixable: { type: 'boolean' }
+  }
+};
+
+export const REPORT_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `rubric-checker/report/v${REPORT_VERSION}`,
+  title: 'Rubric check report',
+  type: 'object',
+  required: ['version', 'format', 'totals', 'counts', 'entries', 'diagnostics'],
+  properties: {
+    version: { const: REPORT_VERSION },
+    file: { type: 'string' },
+    format: { enum: ['kv', 'json', 'yaml', 'csv'] },
+    totals: {
+      type: 'object',
+      required: ['expectedTotal', 'items', 'wrongVerdicts'],
+      properties: {
+        expectedTotal: { type: 'number' },
+        possibleTotal: { type: 'number', description: 'Only present when a template was given.' },
+        items: { type: 'integer', minimum: 0 },
+        wrongVerdicts: { type: 'integer', minimum: 0 }
+      }
+    },
+    counts,
+    entries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id'],
+        properties: {
+          id: { type: 'string' },
+          score: { type: 'number' },
+          verdict: { type: 'string' },
+          justification: { type: 'string' }
+        }
+      }
+    },
+    diagnostics: { type: 'array', items: diagnostic },
+    grammarErrors: {
+      type: 'array',
+      description: 'Items the grammar check could not reach; only present when some failed.',
+      items: {
+        type: 'object',
+        required: ['itemId', 'message'],
+        properties: { itemId: { type: 'string' }, message: { type: 'string' } }
+      }
+    },
+    responseDiagnostics: {
+      type: 'array',
+      description: 'Problems found in the model response itself; ranges point into the response text.',
+      items: diagnostic
+    }
+  }
+};
@@ -0,0 +1,20 @@
+// Reads a request body as text, counting bytes as they arrive so that a chunked body without a
+// Content-Length header cannot get past the limit. Undefined once the body passes `limit` bytes.
+export async function readBody(req: Request, limit: number): Promise<string | undefined> {
+  if (Number(req.headers.get('content-length') ?? 0) > limit) return undefined;
+  if (!req.body) return '';
+  const reader = req.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text + decoder.decode();
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      return undefined;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+}
@@ -0,0 +1,118 @@
+import { findSmiles } from './smiles';
+
+// What a model response contains, read from its Markdown. Line numbers are 1-based.
+
+export interface CodeBlockFact {
+  language: string; // lower-cased first word of the fence info, '' when none was given
+  line: number; // the opening fence
+  code: string;
+}
+
+export interface ImageFact {
+  alt: string;
+  url: string;
+  line: number;
+}
+
+export interface SmilesFact {
+  text: string;
+  line: number;
+  offset: number; // into the response
+}
+
+export interface SectionFact {
+  number: string; // "2.4"
+  title: string;
+  line: number;
+}
+
+export interface TableFact {
+  line: number; // the header row
+  rows: number; // body rows
+}
+
+export interface ResponseFacts {
+  codeBlocks: CodeBlockFact[];
+  images: ImageFact[];
+  smiles: SmilesFact[];
+  sections: SectionFact[];
+  tables: TableFact[];
+}
+
+const LANGUAGE_ALIASES: Record<string, string> = { py: 'python', python3: 'python', ipython: 'python' };
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/;
+// "2.4 Title", "Question 2:", "Part 3) ..."; a bare single number only counts in headings.
+const SECTION_NUMBER = /^(?:(?:question|part|section|problem|q)\s*)?(\d+(?:\.\d+)*)\.?[):]?(?:\s+|$)(.*)$/i;
+// Outside headings the title must start with a capital, so "1.5 g of NaCl" is not a section.
+const NESTED_NUMBER = /^(\d+\.\d+(?:\.\d+)*)\.?[):]?\s+([A-Z].*)$/;
+const IMAGE = /!\[([^\]]*)\]\(\s*<?([^)\s>]*)/g;
+const HTML_IMAGE = /<img\b[^>]*?(?:src=["']([^"']*)["'])?[^>]*>/gi;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+function stripEmphasis(text: string) {
+  return text.replace(/\*\*|__/g, '').replace(/^[*_]+|[*_]+$/g, '').trim();
+}
+
+function sectionOf(text: string, heading: boolean): { number: string; title: string } | undefined {
+  const plain = stripEmphasis(text);
+  const match = plain.match(heading ? SECTION_NUMBER : NESTED_NUMBER);
+  return match ? { number: match[1], title: stripEmphasis(match[2]) } : undefined;
+}
+
+export function extractResponseFacts(markdown: string): ResponseFacts {
+  const facts: ResponseFacts = { codeBlocks: [], images: [], smiles: [], sections: [], tables: [] };
+  const lines = markdown.split('\n');
+  let fence: { marker: string; language: string } | null = null;
+  let lineStart = 0;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.replace(/\r$/, '');
+    const lineNumber = index + 1;
+    const offset = lineStart;
+    lineStart += rawLine.length + 1;
+    const fenceMatch = line.match(FENCE);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence.marker[0] && fenceMatch[1].length >= fence.marker.length && !fenceMatch[2]) {
+        fence = null;
+        return;
+      }
+      const block = facts.codeBlocks[facts.codeBlocks.length - 1];
+      // Line n of the code is response line block.line + n.
+      block.code += lineNumber > block.line + 1 ? `\n${line}` : line;
+      if (fence.language === 'smiles' && line.trim()) {
+        facts.smiles.push({ text: line.trim(), line: lineNumber, offset: offset + line.length - line.trimStart().length });
+      }
+      return;
+    }
+    if (fenceMatch) {
+      const info = fenceMatch[2].toLowerCase();
+      const language = LANGUAGE_ALIASES[info] ?? info;
+      fence = { marker: fenceMatch[1], language };
+      facts.codeBlocks.push({ language, line: lineNumber, code: '' });
+      return;
+    }
+
+    const heading = line.match(HEADING);
+    const section = heading ? sectionOf(heading[1], true) : sectionOf(line.trim(), false);
+    if (section) facts.sections.push({ ...section, line: lineNumber });
+
+    let m: RegExpExecArray | null;
+    IMAGE.lastIndex = 0;
+    while ((m = IMAGE.exec(line))) facts.images.push({ alt: m[1], url: m[2], line: lineNumber });
+    HTML_IMAGE.lastIndex = 0;
+    while ((m = HTML_IMAGE.exec(line))) facts.images.push({ alt: '', url: m[1] ?? '', line: lineNumber });
+
+    if (line.includes('|') && index + 1 < lines.length && TABLE_DELIMITER.test(lines[index + 1]) && lines[index + 1].includes('-')) {
+      let rows = 0;
+      while (index + 2 + rows < lines.length && lines[index + 2 + rows].includes('|')) rows += 1;
+      facts.tables.push({ line: lineNumber, rows });
+    }
+
+    if (!heading) {
+      findSmiles(line).forEach((match) => facts.smiles.push({ text: match.text, line: lineNumber, offset: offset + match.offset }));
+    }
+  });
+  return facts;
+}
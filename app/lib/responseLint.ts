@@ -0,0 +1,239 @@
+import katex from 'katex';
+import type { Diagnostic, Severity } from './diagnostics';
+import { extractResponseFacts } from './responseFacts';
+import { parseSmiles } from './smiles';
+import { lineStartsOf, rangeFromOffsets } from './sourceRange';
+
+// Lint for the pasted model response (Markdown with KaTeX math). Findings are diagnostics whose
+// ranges point into the response text rather than the rubric.
+
+export interface ResponseLintRule {
+  id: string;
+  title: string;
+  severity: Severity;
+}
+
+export const RESPONSE_LINT_RULES: ResponseLintRule[] = [
+  { id: 'katex-error', title: 'KaTeX errors', severity: 'error' },
+  { id: 'math-delimiter', title: 'Unbalanced math delimiters', severity: 'error' },
+  { id: 'unclosed-fence', title: 'Unclosed code fences', severity: 'error' },
+  { id: 'table-shape', title: 'Broken tables', severity: 'warning' },
+  { id: 'empty-link', title: 'Empty links and images', severity: 'warning' },
+  { id: 'bracket-mismatch', title: 'Mismatched brackets', severity: 'warning' },
+  { id: 'smiles-syntax', title: 'Invalid SMILES', severity: 'warning' }
+];
+
+const SEVERITY_OF = new Map(RESPONSE_LINT_RULES.map((rule) => [rule.id, rule.severity]));
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+const PAIRS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+interface TexError {
+  message: string;
+  position?: number; // within the TeX source
+}
+
+// KaTeX results by display mode and source, so re-linting after an edit only renders the math
+// that changed.
+const TEX_CACHE_LIMIT = 5000;
+const texCache = new Map<string, TexError | null>();
+
+function texError(tex: string, display: boolean): TexError | null {
+  const key = `${display ? '$$' : '$'}${tex}`;
+  const cached = texCache.get(key);
+  if (cached !== undefined) return cached;
+  let result: TexError | null = null;
+  try {
+    katex.renderToString(tex, { displayMode: display, throwOnError: true, strict: false });
+  } catch (err) {
+    if (err instanceof katex.ParseError) {
+      const raw = (err as { rawMessage?: string }).rawMessage ?? err.message.replace(/^KaTeX parse error: /, '');
+      result = { message: raw, position: typeof err.position === 'number' ? err.position : undefined };
+    }
+  }
+  texCache.set(key, result);
+  if (texCache.size > TEX_CACHE_LIMIT) texCache.delete(texCache.keys().next().value as string);
+  return result;
+}
+
+interface MathSpan {
+  start: number; // opening delimiter
+  contentStart: number;
+  contentEnd: number;
+  display: boolean;
+}
+
+// Blanks out the [start, end) ranges (in order, not overlapping) so later passes ignore them
+// while offsets stay put. One pass over the text, however many ranges there are.
+function blank(text: string, ranges: [number, number][]) {
+  const parts: string[] = [];
+  let last = 0;
+  ranges.forEach(([start, end]) => {
+    parts.push(text.slice(last, start), text.slice(start, end).replace(/[^\n]/g, ' '));
+    last = end;
+  });
+  parts.push(text.slice(last));
+  return parts.join('');
+}
+
+// Whether a blank line starts at the newline at `at`.
+function blankLineAt(text: string, at: number) {
+  let i = at + 1;
+  while (text[i] === ' ' || text[i] === '\t') i += 1;
+  return i >= text.length || text[i] === '\n';
+}
+
+// Splits a table row into cells on pipes that are not escaped; edge pipes are optional.
+function cellCount(row: string) {
+  const trimmed = row.trim().replace(/^\|/, '').replace(/(^|[^\\])\|$/, '$1');
+  return trimmed.split(/(?:^|[^\\])\|/).length;
+}
+
+export function lintResponse(markdown: string): Diagnostic[] {
+  const lineStarts = lineStartsOf(markdown);
+  const found: Diagnostic[] = [];
+  const report = (ruleId: string, message: string, start: number, end: number) => {
+    found.push({
+      ruleId,
+      severity: SEVERITY_OF.get(ruleId) ?? 'warning',
+      message,
+      range: rangeFromOffsets(lineStarts, start, end)
+    });
+  };
+
+  // 1. Code fences; their contents are not Markdown and are blanked for the passes below.
+  const fences: [number, number][] = [];
+  const lines = markdown.split('\n');
+  let open: { marker: string; start: number; lineEnd: number } | null = null;
+  lines.forEach((line, index) => {
+    const match = line.replace(/\r$/, '').match(FENCE);
+    if (!match) return;
+    const start = lineStarts[index];
+    if (!open) {
+      open = { marker: match[1], start, lineEnd: start + line.length };
+    } else if (match[1][0] === open.marker[0] && match[1].length >= open.marker.length && !match[2].trim()) {
+      fences.push([open.start, start + line.length]);
+      open = null;
+    }
+  });
+  if (open) {
+    const fence: { marker: string; start: number; lineEnd: number } = open;
+    report('unclosed-fence', `Code fence ${fence.marker} is never closed; the rest of the response renders as code.`, fence.start, fence.lineEnd);
+    fences.push([fence.start, markdown.length]);
+  }
+  let prose = blank(markdown, fences).replace(/(`+)[^`\n][\s\S]*?\1/g, (code) => code.replace(/[^\n]/g, ' '));
+
+  // 2. Math: $$...$$ and $...$ as remark-math reads them; \$ is a literal dollar.
+  const spans: MathSpan[] = [];
+  for (let i = 0; i < prose.length; i++) {
+    if (prose[i] === '\\') {
+      i += 1;
+      continue;
+    }
+    if (prose[i] !== '$') continue;
+    const display = prose[i + 1] === '$';
+    const opener = display ? '$$' : '$';
+    const contentStart = i + opener.length;
+    let end = -1;
+    for (let j = contentStart; j < prose.length; j++) {
+      if (prose[j] === '\\') {
+        j += 1;
+        continue;
+      }
+      // Inline math stops at a blank line; display math runs until its closer.
+      if (!display && prose[j] === '\n' && blankLineAt(prose, j)) break;
+      if (prose.startsWith(opener, j)) {
+        end = j;
+        break;
+      }
+    }
+    if (end === -1) {
+      report('math-delimiter', `${opener} opens math that is never closed (write \\$ for a literal dollar sign).`, i, contentStart);
+      i = contentStart - 1;
+      continue;
+    }
+    spans.push({ start: i, contentStart, contentEnd: end, display });
+    i = end + opener.length - 1;
+  }
+
+  // 3. KaTeX, with the error position mapped back into the response.
+  spans.forEach((span) => {
+    const tex = markdown.slice(span.contentStart, span.contentEnd);
+    if (!tex.trim()) {
+      report('katex-error', 'Empty math expression.', span.start, span.contentEnd + (span.display ? 2 : 1));
+      return;
+    }
+    const error = texError(tex, span.display);
+    if (!error) return;
+    const at = error.position === undefined ? span.contentStart : span.contentStart + Math.min(error.position, tex.length - 1);
+    report('katex-error', `KaTeX: ${error.message}`, at, at + 1);
+  });
+  prose = blank(prose, spans.map((span): [number, number] => [span.start, span.contentEnd + (span.display ? 2 : 1)]));
+
+  // 4. Tables: every row should have as many cells as the header.
+  const proseLines = prose.split('\n');
+  for (let index = 0; index + 1 < proseLines.length; index++) {
+    const header = proseLines[index];
+    if (!header.includes('|') || !TABLE_DELIMITER.test(proseLines[index + 1]) || !proseLines[index + 1].includes('-')) continue;
+    const columns = cellCount(header);
+    let row = index + 1;
+    for (; row < proseLines.length && proseLines[row].includes('|'); row++) {
+      const cells = cellCount(proseLines[row]);
+      if (cells === columns) continue;
+      const start = lineStarts[row] + (proseLines[row].length - proseLines[row].trimStart().length);
+      report(
+        'table-shape',
+        row === index + 1
+          ? `Table delimiter row has ${cells} columns; the header has ${columns}.`
+          : `Table row has ${cells} cells; the header has ${columns}.`,
+        start,
+        lineStarts[row] + proseLines[row].trimEnd().length
+      );
+    }
+    index = row - 1;
+  }
+
+  // 5. Links and images with nothing to show or nowhere to go.
+  const LINK = /(!?)\[([^\]\n]*)\]\(\s*([^)\s]*)[^)\n]*\)/g;
+  let m: RegExpExecArray | null;
+  while ((m = LINK.exec(prose))) {
+    const image = m[1] === '!';
+    const end = m.index + m[0].length;
+    if (!m[3]) report('empty-link', image ? 'Image has no source.' : 'Link has no target.', m.index, end);
+    else if (!image && !m[2].trim()) report('empty-link', 'Link has no text.', m.index, end);
+  }
+  prose = prose.replace(LINK, (link) => link.replace(/[^\n]/g, ' '));
+
+  // 6. Brackets in prose, per paragraph; "1)" and "a)" list markers do not open anything.
+  const paragraphs = prose.split(/\n[ \t]*\n/);
+  let offset = 0;
+  paragraphs.forEach((paragraph) => {
+    offset = prose.indexOf(paragraph, offset);
+    const text = paragraph.replace(/(^|\n)(\s*)(\d+|[A-Za-z])\)/g, (_, br, space, marker) => `${br}${space}${marker} `);
+    const stack: { char: string; at: number }[] = [];
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\\') {
+        i += 1;
+      } else if (char === '(' || char === '[' || char === '{') {
+        stack.push({ char, at: offset + i });
+      } else if (PAIRS[char]) {
+        if (stack.length && stack[stack.length - 1].char === PAIRS[char]) stack.pop();
+        else report('bracket-mismatch', `"${char}" has no matching "${PAIRS[char]}".`, offset + i, offset + i + 1);
+      }
+    }
+    stack.forEach((b) => report('bracket-mismatch', `"${b.char}" is never closed.`, b.at, b.at + 1));
+    offset += paragraph.length;
+  });
+
+  // 7. SMILES strings, in prose and in ```smiles blocks.
+  extractResponseFacts(markdown).smiles.forEach((match) => {
+    parseSmiles(match.text).errors.forEach((error) => {
+      const at = match.offset + error.offset;
+      report('smiles-syntax', `SMILES ${match.text}: ${error.message}`, at, at + Math.max(error.length, 1));
+    });
+  });
+
+  return found.sort((a, b) => (a.range?.startOffset ?? 0) - (b.range?.startOffset ?? 0));
+}
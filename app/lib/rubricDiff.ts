@@ -0,0 +1,172 @@
+import type { ParseResult, RubricEntry } from './parseRubric';
+
+// Compares an original rubric with a re-graded version of it. Entries are matched by id, so moving
+// items around (or switching between key:value, JSON and YAML) shows up as no change at all.
+
+export type ItemChange = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface WordDiffPart {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface ItemDiff {
+  id: string;
+  change: ItemChange;
+  before?: RubricEntry;
+  after?: RubricEntry;
+  scoreDelta?: number; // after - before; only when both versions have a score
+  scoreChanged: boolean; // also true when a score was added or dropped
+  verdictBefore?: string; // unquoted and upper-cased
+  verdictAfter?: string;
+  verdictFlipped: boolean; // both versions have a verdict and they differ
+  verdictChanged: boolean; // flipped, added or dropped
+  justificationChanged: boolean; // ignoring changes in whitespace only
+  justificationDiff?: WordDiffPart[]; // set when justificationChanged
+}
+
+export interface RubricDiff {
+  items: ItemDiff[]; // the revised order, with removed items after the item that preceded them
+  added: number;
+  removed: number;
+  changed: number;
+  scoreChanges: number;
+  verdictFlips: number;
+  justificationChanges: number;
+  totalBefore: number; // expected totals (sum of leaf scores)
+  totalAfter: number;
+  totalChange: number;
+}
+
+// Larger justifications fall back to a whole delete + insert instead of an O(n*m) table.
+const MAX_DIFF_CELLS = 1_000_000;
+
+function normalizeVerdict(verdict: string | undefined) {
+  const text = verdict?.replace(/^"+|"+$/g, '').trim().toUpperCase();
+  return text || undefined;
+}
+
+function normalizeText(text: string | undefined) {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+function isSpace(token: string) {
+  return /^\s+$/.test(token);
+}
+
+// Any two runs of whitespace count as equal so rewrapped text does not light up.
+function sameToken(a: string, b: string) {
+  return a === b || (isSpace(a) && isSpace(b));
+}
+
+function pushPart(parts: WordDiffPart[], op: WordDiffPart['op'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.op === op) last.text += text;
+  else parts.push({ op, text });
+}
+
+// Words, whitespace runs and punctuation are separate tokens, so "runs." still matches "runs".
+function tokenize(text: string) {
+  return text.split(/(\s+|[.,;:!?()])/).filter(Boolean);
+}
+
+// Word-level diff (longest common subsequence over tokens); deletions come before insertions.
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: WordDiffPart[] = [];
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    if (before) parts.push({ op: 'delete', text: before });
+    if (after) parts.push({ op: 'insert', text: after });
+    return parts;
+  }
+
+  // lcs[i][j] = length of the common subsequence of a[i..] and b[j..]
+  const lcs: number[][] = [];
+  for (let i = a.length; i >= 0; i--) {
+    lcs[i] = [];
+    for (let j = b.length; j >= 0; j--) {
+      if (i === a.length || j === b.length) lcs[i][j] = 0;
+      else if (sameToken(a[i], b[j])) lcs[i][j] = lcs[i + 1][j + 1] + 1;
+      else lcs[i][j] = Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && sameToken(a[i], b[j])) {
+      pushPart(parts, 'equal', b[j]);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      pushPart(parts, 'delete', a[i++]);
+    } else {
+      pushPart(parts, 'insert', b[j++]);
+    }
+  }
+  return parts;
+}
+
+function diffItem(id: string, before?: RubricEntry, after?: RubricEntry): ItemDiff {
+  const verdictBefore = normalizeVerdict(before?.verdict);
+  const verdictAfter = normalizeVerdict(after?.verdict);
+  const hasScores = before?.score !== undefined && after?.score !== undefined;
+  const scoreChanged = before && after ? before.score !== after.score : false;
+  const verdictChanged = before && after ? verdictBefore !== verdictAfter : false;
+  const justificationChanged = before && after ? normalizeText(before.justification) !== normalizeText(after.justification) : false;
+
+  let change: ItemChange = 'unchanged';
+  if (!before) change = 'added';
+  else if (!after) change = 'removed';
+  else if (scoreChanged || verdictChanged || justificationChanged) change = 'changed';
+
+  return {
+    id,
+    change,
+    before,
+    after,
+    scoreDelta: hasScores ? (after?.score as number) - (before?.score as number) : undefined,
+    scoreChanged,
+    verdictBefore,
+    verdictAfter,
+    verdictFlipped: Boolean(verdictBefore && verdictAfter && verdictBefore !== verdictAfter),
+    verdictChanged,
+    justificationChanged,
+    justificationDiff: justificationChanged ? diffWords(before?.justification ?? '', after?.justification ?? '') : undefined
+  };
+}
+
+export function diffRubrics(before: ParseResult, after: ParseResult): RubricDiff {
+  const beforeById = new Map(before.entries.map((e) => [e.id, e]));
+  const afterIds = new Set(after.entries.map((e) => e.id));
+  const items = after.entries.map((entry) => diffItem(entry.id, beforeById.get(entry.id), entry));
+
+  // Removed items go right after the closest earlier item that is still listed.
+  before.entries.forEach((entry, index) => {
+    if (afterIds.has(entry.id)) return;
+    let at = 0;
+    for (let k = index - 1; k >= 0; k--) {
+      const found = items.findIndex((item) => item.id === before.entries[k].id);
+      if (found !== -1) {
+        at = found + 1;
+        break;
+      }
+    }
+    items.splice(at, 0, diffItem(entry.id, entry, undefined));
+  });
+
+  const count = (predicate: (item: ItemDiff) => boolean) => items.filter(predicate).length;
+  return {
+    items,
+    added: count((item) => item.change === 'added'),
+    removed: count((item) => item.change === 'removed'),
+    changed: count((item) => item.change === 'changed'),
+    scoreChanges: count((item) => item.scoreChanged),
+    verdictFlips: count((item) => item.verdictFlipped),
+    justificationChanges: count((item) => item.justificationChanged),
+    totalBefore: before.expectedTotal,
+    totalAfter: after.expectedTotal,
+    totalChange: after.expectedTotal - before.expectedTotal
+  };
+}
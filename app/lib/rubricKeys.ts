@@ -0,0 +1,21 @@
+import type { RubricEntry } from './parseRubric';
+
+export type RubricFieldKey = 'score' | 'verdict' | 'justification' | 'other';
+
+const FIELD_NAMES = ['score', 'verdict', 'justification'];
+
+export function detectField(key: string): RubricFieldKey {
+  const part = key.split('_').pop() ?? '';
+  if (FIELD_NAMES.includes(part)) return part as RubricFieldKey;
+  return 'other';
+}
+
+// "Q2_A_1_score" -> "Q2_A_1"; keys without a field suffix map to themselves.
+export function baseIdForKey(key: string): string {
+  return key.split('_').slice(0, -1).join('_') || key;
+}
+
+// The key an entry's justification was read from (e.g., "Q2_A_1_justification").
+export function justificationKey(entry: RubricEntry) {
+  return Object.keys(entry.locations).find((k) => detectField(k) === 'justification');
+}
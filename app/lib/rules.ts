@@ -0,0 +1,592 @@
+import type { Fix, RubricRule, RuleContext, RuleFinding } from './diagnostics';
+import { findPhrases } from './coherence';
+import { findContradictions } from './crossCheck';
+import { computedSubtotal, isLeaf, leavesOf, walkTree } from './itemTree';
+import { baseIdForKey, justificationKey } from './rubricKeys';
+import { spanEdit, valueEdit } from './serialize';
+import { findSmiles, parseSmiles } from './smiles';
+import { lineStartsOf, valueSpanRange } from './sourceRange';
+import { findMiscasedTerms } from './terminology';
+
+export const ALLOWED_VERDICTS = new Set(['ACCEPTED', 'WRONG_ANSWER']);
+
+// A fix that rewrites the whole value of `key`; undefined when it cannot be written back safely.
+function replaceValueFix(ctx: RuleContext, key: string, value: string, description: string): Fix | undefined {
+  const location = ctx.locations.get(key);
+  const edit = location && valueEdit(ctx.format, ctx.raw, location, value);
+  return edit ? { description, edits: [edit] } : undefined;
+}
+
+// Strips stray quotes around a verdict: ""ACCEPTED"" is stored as "ACCEPTED".
+function unquoteVerdict(verdict: string) {
+  return verdict.replace(/^"+|"+$/g, '').trim();
+}
+
+const formatError: RubricRule = {
+  id: 'format-error',
+  title: 'Format errors',
+  description: 'The rubric could not be read in its (detected or selected) format.',
+  defaultSeverity: 'error',
+  check: ({ formatErrors }) => formatErrors.map(({ message, range }) => ({ message, range }))
+};
+
+const invalidVerdict: RubricRule = {
+  id: 'invalid-verdict',
+  title: 'Invalid verdict format',
+  description: 'Verdicts must be "ACCEPTED" or "WRONG_ANSWER".',
+  defaultSeverity: 'error',
+  check: (ctx) =>
+    ctx.entries
+      .filter((e) => e.verdict && !ALLOWED_VERDICTS.has(e.verdict.trim().toUpperCase()))
+      .map((e) => {
+        const key = `${e.id}_verdict`;
+        const normalized = unquoteVerdict(e.verdict ?? '').toUpperCase();
+        return {
+          itemId: e.id,
+          key,
+          message: `Verdict "${e.verdict}" is not allowed. Allowed: "ACCEPTED" or "WRONG_ANSWER".`,
+          fix: ALLOWED_VERDICTS.has(normalized)
+            ? replaceValueFix(ctx, key, normalized, `Write verdict as ${normalized}`)
+            : undefined
+        };
+      })
+};
+
+const verdictCasing: RubricRule = {
+  id: 'verdict-casing',
+  title: 'Verdict casing',
+  description: 'Verdicts should be written in uppercase (ACCEPTED, not accepted).',
+  defaultSeverity: 'warning',
+  check: (ctx) =>
+    ctx.entries
+      .filter((e) => {
+        const verdict = (e.verdict ?? '').trim();
+        return ALLOWED_VERDICTS.has(verdict.toUpperCase()) && verdict !== verdict.toUpperCase();
+      })
+      .map((e) => {
+        const key = `${e.id}_verdict`;
+        const normalized = (e.verdict ?? '').trim().toUpperCase();
+        return {
+          itemId: e.id,
+          key,
+          message: `Verdict "${e.verdict}" should be ${normalized}.`,
+          fix: replaceValueFix(ctx, key, normalized, `Write verdict as ${normalized}`)
+        };
+      })
+};
+
+const missingJustification: RubricRule = {
+  id: 'missing-justification',
+  title: 'Missing justification',
+  description: 'Every item needs a non-empty justification.',
+  defaultSeverity: 'error',
+  check: ({ entries }) =>
+    entries
+      .filter((e) => !(e.justification && e.justification.trim().length))
+      .map((e) => ({ itemId: e.id, message: 'No justification provided.' }))
+};
+
+const incompleteItem: RubricRule = {
+  id: 'incomplete-item',
+  title: 'Incomplete items',
+  description: 'Every item should have a score, a verdict and a justification.',
+  defaultSeverity: 'error',
+  check: ({ entries }) => {
+    const findings: RuleFinding[] = [];
+    entries.forEach((e) => {
+      const missing: string[] = [];
+      if (e.score === undefined) missing.push('score');
+      if (!e.verdict) missing.push('verdict');
+      if (!e.justification) missing.push('justification');
+      if (missing.length) findings.push({ itemId: e.id, message: `Missing ${missing.join(', ')}.` });
+    });
+    return findings;
+  }
+};
+
+// Every internal node of the id tree (Q2, Q2_A, ...) that reports a score should equal its children.
+const totalMismatch: RubricRule = {
+  id: 'total-mismatch',
+  title: 'Total mismatches',
+  description: 'Reported totals and subtotals (e.g., Q2_score, Q2_A_score) must equal the sum of their parts.',
+  defaultSeverity: 'error',
+  check: (ctx) => {
+    const findings: RuleFinding[] = [];
+    walkTree(ctx.tree, (node) => {
+      if (isLeaf(node) || typeof node.entry?.score !== 'number') return;
+      // Round away float noise so 0.1 + 0.2 reads (and is written back) as 0.3.
+      const expected = Number(computedSubtotal(node).toFixed(6));
+      if (Math.abs(node.entry.score - expected) > 1e-9) {
+        const key = `${node.id}_score`;
+        findings.push({
+          itemId: node.id,
+          key,
+          message: `Reported ${node.entry.score}, expected ${expected}.`,
+          fix: replaceValueFix(ctx, key, String(expected), `Set ${key} to ${expected}`)
+        });
+      }
+    });
+    return findings;
+  }
+};
+
+const termCasing: RubricRule = {
+  id: 'term-casing',
+  title: 'Casing issues',
+  description: 'Justifications should write terms from the terminology list (SMILES, Python, pKa, ...) in their canonical casing.',
+  defaultSeverity: 'warning',
+  check: (ctx) => {
+    const findings: RuleFinding[] = [];
+    const lineStarts = lineStartsOf(ctx.raw);
+    ctx.entries.forEach((e) => {
+      const key = justificationKey(e);
+      if (!e.justification || !key) return;
+      const location = e.locations[key];
+      findMiscasedTerms(e.justification, ctx.terms).forEach((occurrence) => {
+        const edit = spanEdit(ctx.format, ctx.raw, location, occurrence.offset, occurrence.length, occurrence.canonical);
+        findings.push({
+          itemId: e.id,
+          key,
+          message: `Write ${occurrence.canonical} (found "${occurrence.found}").`,
+          range: valueSpanRange(lineStarts, location, occurrence.offset, occurrence.length),
+          fix: edit ? { description: `Write ${occurrence.canonical}`, edits: [edit] } : undefined
+        });
+      });
+    });
+    return findings;
+  }
+};
+
+const duplicateKey: RubricRule = {
+  id: 'duplicate-key',
+  title: 'Duplicate keys',
+  description: 'Each key should appear only once; later values overwrite earlier ones.',
+  defaultSeverity: 'error',
+  check: ({ duplicateKeys }) =>
+    duplicateKeys.map(({ key = '', range }) => ({
+      itemId: baseIdForKey(key),
+      key,
+      range,
+      message: `Key "${key}" appears more than once.`
+    }))
+};
+
+const unparsedLine: RubricRule = {
+  id: 'unparsed-line',
+  title: 'Unparsed lines',
+  description: 'Lines that are not blank, a # comment, `key: value`, or a continuation of the previous value are ignored.',
+  defaultSeverity: 'warning',
+  check: ({ unparsedLines }) =>
+    unparsedLines.map(({ text, range }) => ({
+      range,
+      message: `Line ${range.line} is not \`key: value\` and was ignored: ${text.slice(0, 80)}`
+    }))
+};
+
+const ambiguousLine: RubricRule = {
+  id: 'ambiguous-line',
+  title: 'Ambiguous lines',
+  description: 'A line right after a value that could be a new key or part of that value; only a rubric key that is not indented under it starts a new one.',
+  defaultSeverity: 'warning',
+  check: ({ ambiguousLines }) => ambiguousLines.map(({ message, range }) => ({ message, range }))
+};
+
+// Detect skipped indices per group prefix (e.g., Q1_A_)
+const sequenceGap: RubricRule = {
+  id: 'sequence-gap',
+  title: 'Sequence gaps',
+  description: 'Numbered sub-items within a group should not skip indices.',
+  defaultSeverity: 'warning',
+  check: ({ entries }) => {
+    const groupMap = new Map<string, number[]>();
+    entries.forEach((e) => {
+      const match = e.id.match(/^(.*_)(\d+)$/);
+      if (!match) return;
+      const idx = Number(match[2]);
+      if (Number.isNaN(idx)) return;
+      const arr = groupMap.get(match[1]) ?? [];
+      arr.push(idx);
+      groupMap.set(match[1], arr);
+    });
+
+    const findings: RuleFinding[] = [];
+    groupMap.forEach((indices, group) => {
+      const sorted = Array.from(new Set(indices)).sort((a, b) => a - b);
+      if (sorted.length === 0) return;
+      const missing: number[] = [];
+      for (let i = sorted[0]; i <= sorted[sorted.length - 1]; i++) {
+        if (!sorted.includes(i)) missing.push(i);
+      }
+      if (missing.length) findings.push({ itemId: group.slice(0, -1), message: `${group} missing ${missing.join(', ')}.` });
+    });
+    return findings;
+  }
+};
+
+const zeroScoreAccepted: RubricRule = {
+  id: 'zero-score-accepted',
+  title: 'Zero-score accepted items',
+  description: 'An ACCEPTED verdict with a score of 0 is usually a grading slip.',
+  defaultSeverity: 'warning',
+  check: ({ entries }) =>
+    entries
+      .filter((e) => e.score === 0 && (e.verdict ?? '').toUpperCase() === 'ACCEPTED')
+      .map((e) => ({ itemId: e.id, message: 'Scored 0 but marked ACCEPTED.' }))
+};
+
+function maxScoreOf(ctx: RuleContext, id: string) {
+  return ctx.template?.items.find((item) => item.id === id)?.maxScore;
+}
+
+// Leaves only: a summary node's score is a sum over sub-items with their own verdicts.
+const wrongAnswerScore: RubricRule = {
+  id: 'wrong-answer-score',
+  title: 'Scored wrong answers',
+  description: 'A WRONG_ANSWER item should score 0, unless the partial-credit policy allows scores below the max.',
+  defaultSeverity: 'warning',
+  check: (ctx) => {
+    const findings: RuleFinding[] = [];
+    walkTree(ctx.tree, (node) => {
+      const entry = node.entry;
+      if (!isLeaf(node) || !entry || typeof entry.score !== 'number' || entry.score === 0) return;
+      if (!unquoteVerdict(entry.verdict ?? '').toUpperCase().includes('WRONG')) return;
+      const max = maxScoreOf(ctx, entry.id);
+      if (ctx.coherence.partialCredit === 'below-max') {
+        if (max === undefined || entry.score < max) return;
+        findings.push({
+          itemId: entry.id,
+          key: `${entry.id}_score`,
+          message: `Marked WRONG_ANSWER but scored full marks (${entry.score} of ${max}).`
+        });
+        return;
+      }
+      findings.push({
+        itemId: entry.id,
+        key: `${entry.id}_score`,
+        message: `Marked WRONG_ANSWER but scored ${entry.score}; partial credit is not allowed.`
+      });
+    });
+    return findings;
+  }
+};
+
+const acceptedBelowMax: RubricRule = {
+  id: 'accepted-below-max',
+  title: 'Accepted items below max',
+  description: 'An ACCEPTED item should get the max score declared in the rubric template.',
+  defaultSeverity: 'warning',
+  check: (ctx) => {
+    if (!ctx.template) return [];
+    const findings: RuleFinding[] = [];
+    ctx.entries.forEach((e) => {
+      const max = maxScoreOf(ctx, e.id);
+      if (max === undefined || typeof e.score !== 'number' || e.score >= max) return;
+      if (unquoteVerdict(e.verdict ?? '').toUpperCase() !== 'ACCEPTED') return;
+      findings.push({ itemId: e.id, key: `${e.id}_score`, message: `Marked ACCEPTED but scored ${e.score} of ${max}.` });
+    });
+    return findings;
+  }
+};
+
+// Phrases from the coherence lexicon that argue against the verdict, each at its position.
+const verdictSentiment: RubricRule = {
+  id: 'verdict-sentiment',
+  title: 'Justification contradicts verdict',
+  description: 'Justifications praising a WRONG_ANSWER ("is correct", "fully") or faulting an ACCEPTED item ("missing", "failed").',
+  defaultSeverity: 'warning',
+  check: (ctx) => {
+    const findings: RuleFinding[] = [];
+    const lineStarts = lineStartsOf(ctx.raw);
+    ctx.entries.forEach((e) => {
+      const key = justificationKey(e);
+      if (!e.justification || !key) return;
+      const verdict = unquoteVerdict(e.verdict ?? '').toUpperCase();
+      const phrases = verdict.includes('WRONG')
+        ? ctx.coherence.positivePhrases
+        : verdict === 'ACCEPTED'
+          ? ctx.coherence.negativePhrases
+          : [];
+      findPhrases(e.justification, phrases).forEach((occurrence) => {
+        findings.push({
+          itemId: e.id,
+          key,
+          message: `"${occurrence.phrase}" in the justification contradicts the ${verdict} verdict.`,
+          range: valueSpanRange(lineStarts, e.locations[key], occurrence.offset, occurrence.length)
+        });
+      });
+    });
+    return findings;
+  }
+};
+
+const responseMismatch: RubricRule = {
+  id: 'response-mismatch',
+  title: 'Justification contradicts response',
+  description:
+    'Justifications that say code, figures, SMILES or tables are missing when the model response has them, or that refer to sections the response does not have.',
+  defaultSeverity: 'warning',
+  check: (ctx) => {
+    const response = ctx.response;
+    if (!response) return [];
+    const findings: RuleFinding[] = [];
+    const lineStarts = lineStartsOf(ctx.raw);
+    ctx.entries.forEach((e) => {
+      const key = justificationKey(e);
+      if (!e.justification || !key) return;
+      findContradictions(e.justification, response).forEach((c) => {
+        findings.push({
+          itemId: e.id,
+          key,
+          message: c.message,
+          range: valueSpanRange(lineStarts, e.locations[key], c.offset, c.length)
+        });
+      });
+    });
+    return findings;
+  }
+};
+
+const smilesSyntax: RubricRule = {
+  id: 'smiles-syntax',
+  title: 'Invalid SMILES',
+  description: 'SMILES strings in justifications with unbalanced branches, unpaired ring closures, bad bracket atoms or bonds, or impossible valences.',
+  defaultSeverity: 'warning',
+  check: (ctx) => {
+    const findings: RuleFinding[] = [];
+    const lineStarts = lineStartsOf(ctx.raw);
+    ctx.entries.forEach((e) => {
+      const key = justificationKey(e);
+      if (!e.justification || !key) return;
+      findSmiles(e.justification).forEach((match) => {
+        parseSmiles(match.text).errors.forEach((error) => {
+          findings.push({
+            itemId: e.id,
+            key,
+            message: `SMILES ${match.text}: ${error.message}`,
+            range: valueSpanRange(lineStarts, e.locations[key], match.offset + error.offset, Math.max(error.length, 1))
+          });
+        });
+      });
+    });
+    return findings;
+  }
+};
+
+// Internal nodes with a verdict are summary verdicts over the leaves beneath them.
+const finalVerdictConsistency: RubricRule = {
+  id: 'final-verdict-consistency',
+  title: 'Final verdict consistency',
+  description: 'Summary verdicts (Q2, Q2_A, ...) should agree with the verdicts of the sub-items beneath them.',
+  defaultSeverity: 'error',
+  check: ({ tree }) => {
+    const findings: RuleFinding[] = [];
+    walkTree(tree, (node) => {
+      if (isLeaf(node) || !node.entry?.verdict) return;
+      const leafVerdicts = leavesOf(node)
+        .filter((leaf) => leaf.entry?.verdict)
+        .map((leaf) => (leaf.entry?.verdict ?? '').toUpperCase());
+      if (!leafVerdicts.length) return;
+      const verdict = node.entry.verdict.toUpperCase();
+      if (verdict === 'ACCEPTED' && leafVerdicts.some((v) => v === 'WRONG_ANSWER')) {
+        findings.push({
+          itemId: node.id,
+          key: `${node.id}_verdict`,
+          message: 'Contains WRONG_ANSWER sub-items but summary verdict is ACCEPTED.'
+        });
+      }
+      if (verdict.includes('WRONG') && leafVerdicts.every((v) => v === 'ACCEPTED')) {
+        findings.push({
+          itemId: node.id,
+          key: `${node.id}_verdict`,
+          message: 'All sub-items ACCEPTED but summary verdict is WRONG.'
+        });
+      }
+    });
+    return findings;
+  }
+};
+
+// Extra quotes in verdicts (e.g., ""ACCEPTED"")
+const verdictExtraQuotes: RubricRule = {
+  id: 'verdict-extra-quotes',
+  title: 'Verdict quote issues',
+  description: 'Verdicts should be wrapped in a single pair of quotes.',
+  defaultSeverity: 'warning',
+  check: (ctx) => {
+    const findings: RuleFinding[] = [];
+    ctx.rawValues.forEach((rawValue, key) => {
+      if (!key.endsWith('_verdict')) return;
+      if (rawValue.startsWith('""') || rawValue.endsWith('""')) {
+        const itemId = baseIdForKey(key);
+        const verdict = ctx.entries.find((e) => e.id === itemId)?.raw[key] ?? '';
+        findings.push({
+          itemId,
+          key,
+          message: `Found extra quotes (${rawValue}).`,
+          fix: replaceValueFix(ctx, key, unquoteVerdict(verdict), 'Remove the extra quotes')
+        });
+      }
+    });
+    return findings;
+  }
+};
+
+// key:value text only; other formats either ignore trailing whitespace or keep it as content.
+const trailingWhitespace: RubricRule = {
+  id: 'trailing-whitespace',
+  title: 'Trailing whitespace',
+  description: 'Spaces or tabs after a value (e.g., "Q2_score: 12 ") are copy artefacts.',
+  defaultSeverity: 'info',
+  check: ({ raw, format, locations }) => {
+    if (format !== 'kv') return [];
+    const findings: RuleFinding[] = [];
+    locations.forEach((location, key) => {
+      const end = location.line.endOffset;
+      const trailing = raw.slice(end).match(/^[ \t]+(?=\r?\n|$)/);
+      if (!trailing) return;
+      findings.push({
+        itemId: baseIdForKey(key),
+        key,
+        message: 'Trailing whitespace after the value.',
+        fix: { description: 'Remove trailing whitespace', edits: [{ start: end, end: end + trailing[0].length, text: '' }] }
+      });
+    });
+    return findings;
+  }
+};
+
+const negativeScore: RubricRule = {
+  id: 'negative-score',
+  title: 'Negative scores',
+  description: 'Scores cannot be below zero.',
+  defaultSeverity: 'error',
+  check: ({ entries }) =>
+    entries
+      .filter((e) => typeof e.score === 'number' && e.score < 0)
+      .map((e) => ({ itemId: e.id, key: `${e.id}_score`, message: `Score ${e.score} is negative.` }))
+};
+
+const scoreAboveMax: RubricRule = {
+  id: 'score-above-max',
+  title: 'Scores above max',
+  description: 'Scores must not exceed the max score declared in the rubric template.',
+  defaultSeverity: 'error',
+  check: ({ entries, template }) => {
+    if (!template) return [];
+    const findings: RuleFinding[] = [];
+    template.items.forEach((item) => {
+      const entry = entries.find((e) => e.id === item.id);
+      if (!entry || typeof entry.score !== 'number' || item.maxScore === undefined) return;
+      if (entry.score > item.maxScore) {
+        findings.push({
+          itemId: entry.id,
+          key: `${entry.id}_score`,
+          message: `Score ${entry.score} exceeds max ${item.maxScore}.`
+        });
+      }
+    });
+    return findings;
+  }
+};
+
+const scoreStep: RubricRule = {
+  id: 'score-step',
+  title: 'Disallowed score steps',
+  description: 'Scores must be a multiple of the step declared in the rubric template.',
+  defaultSeverity: 'warning',
+  check: ({ entries, template }) => {
+    if (!template) return [];
+    const findings: RuleFinding[] = [];
+    template.items.forEach((item) => {
+      const entry = entries.find((e) => e.id === item.id);
+      if (!entry || typeof entry.score !== 'number' || !item.step) return;
+      const ratio = entry.score / item.step;
+      // Tolerate float noise such as 0.1 + 0.2.
+      if (Math.abs(ratio - Math.round(ratio)) > 1e-9) {
+        findings.push({
+          itemId: entry.id,
+          key: `${entry.id}_score`,
+          message: `Score ${entry.score} is not a multiple of ${item.step}.`
+        });
+      }
+    });
+    return findings;
+  }
+};
+
+const unexpectedItem: RubricRule = {
+  id: 'unexpected-item',
+  title: 'Unexpected items',
+  description: 'Items that the rubric template does not declare.',
+  defaultSeverity: 'warning',
+  check: ({ entries, template }) => {
+    if (!template) return [];
+    const expected = new Set(template.items.map((item) => item.id));
+    return entries
+      .filter((e) => !expected.has(e.id))
+      .map((e) => ({ itemId: e.id, message: 'Not declared in the rubric template.' }));
+  }
+};
+
+const missingItem: RubricRule = {
+  id: 'missing-item',
+  title: 'Missing items',
+  description: 'Items declared in the rubric template that the rubric does not contain.',
+  defaultSeverity: 'error',
+  check: ({ entries, template }) => {
+    if (!template) return [];
+    const present = new Set(entries.map((e) => e.id));
+    return template.items
+      .filter((item) => !present.has(item.id))
+      .map((item) => ({ itemId: item.id, message: 'Declared in the rubric template but missing.' }));
+  }
+};
+
+const missingRequiredField: RubricRule = {
+  id: 'missing-required-field',
+  title: 'Missing required fields',
+  description: 'Fields the rubric template marks as required for an item.',
+  defaultSeverity: 'error',
+  check: ({ entries, template }) => {
+    if (!template) return [];
+    const findings: RuleFinding[] = [];
+    template.items.forEach((item) => {
+      const entry = entries.find((e) => e.id === item.id);
+      if (!entry || !item.required) return;
+      const missing = item.required.filter((field) => entry.raw[`${entry.id}_${field}`] === undefined);
+      if (missing.length) {
+        findings.push({ itemId: entry.id, message: `Template requires ${missing.join(', ')}.` });
+      }
+    });
+    return findings;
+  }
+};
+
+export const BUILTIN_RULES: RubricRule[] = [
+  formatError,
+  invalidVerdict,
+  verdictCasing,
+  missingJustification,
+  totalMismatch,
+  termCasing,
+  incompleteItem,
+  duplicateKey,
+  unparsedLine,
+  ambiguousLine,
+  sequenceGap,
+  zeroScoreAccepted,
+  wrongAnswerScore,
+  acceptedBelowMax,
+  verdictSentiment,
+  responseMismatch,
+  smilesSyntax,
+  finalVerdictConsistency,
+  verdictExtraQuotes,
+  trailingWhitespace,
+  negativeScore,
+  scoreAboveMax,
+  scoreStep,
+  unexpectedItem,
+  missingItem,
+  missingRequiredField
+];
@@ -0,0 +1,74 @@
+import type { RubricFormat } from './formats';
+import { sourceOffsetOf, type KeyLocation } from './sourceRange';
+
+// Changes to rubric text are expressed as edits on the raw text, so everything that is not
+// edited (ordering, comments, blank lines, quoting style) comes out byte-identical.
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Applies edits in priority order: an edit overlapping one that was already taken is dropped.
+export function applyEdits(raw: string, edits: TextEdit[]): string {
+  const taken: TextEdit[] = [];
+  edits.forEach((edit) => {
+    const overlaps = taken.some((t) => edit.start < t.end && t.start < edit.end);
+    // Two insertions at the same point would be ambiguous too.
+    const sameInsert = taken.some((t) => t.start === t.end && edit.start === edit.end && t.start === edit.start);
+    if (!overlaps && !sameInsert) taken.push(edit);
+  });
+  return taken
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), raw);
+}
+
+function isQuoted(raw: string, location: KeyLocation, quote: string) {
+  return raw[location.value.startOffset - 1] === quote && raw[location.value.endOffset] === quote;
+}
+
+// Encodes a value for the spot the location points at, matching the quoting already there.
+// Returns undefined when the value cannot be written back safely (e.g., YAML block scalars).
+export function encodeValue(format: RubricFormat, raw: string, location: KeyLocation, value: string): string | undefined {
+  if (format === 'kv') {
+    if (isQuoted(raw, location, '"')) return value.replace(/"/g, '\\"');
+    return value.includes('\n') ? undefined : value;
+  }
+  if (format === 'json') {
+    if (isQuoted(raw, location, '"')) return JSON.stringify(value).slice(1, -1);
+    return value.trim() && !Number.isNaN(Number(value)) ? value : JSON.stringify(value);
+  }
+  if (format === 'csv') {
+    if (isQuoted(raw, location, '"')) return value.replace(/"/g, '""');
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  }
+  // YAML: only inline scalars whose text maps exactly onto the value.
+  if (location.segments) return undefined;
+  if (isQuoted(raw, location, '"')) return JSON.stringify(value).slice(1, -1);
+  if (isQuoted(raw, location, "'")) return value.replace(/'/g, "''");
+  return /^[\s"'#&*!|>%@`{[\-?:,]|: | #|\n/.test(value) ? undefined : value;
+}
+
+// Replaces a whole value.
+export function valueEdit(format: RubricFormat, raw: string, location: KeyLocation, value: string): TextEdit | undefined {
+  const text = encodeValue(format, raw, location, value);
+  if (text === undefined) return undefined;
+  return { start: location.value.startOffset, end: location.value.endOffset, text };
+}
+
+// Replaces `length` characters at `offset` inside a decoded value (e.g., a word in a justification).
+export function spanEdit(
+  format: RubricFormat,
+  raw: string,
+  location: KeyLocation,
+  offset: number,
+  length: number,
+  replacement: string
+): TextEdit | undefined {
+  const start = sourceOffsetOf(location, offset);
+  const end = length ? sourceOffsetOf(location, offset + length, 'end') : start;
+  if (start === undefined || end === undefined || end - start !== length) return undefined;
+  const text = encodeValue(format, raw, location, replacement);
+  if (text === undefined) return undefined;
+  return { start, end, text };
+}
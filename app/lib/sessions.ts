@@ -0,0 +1,125 @@
+import type { CheckedText, GrammarIgnores } from './grammar';
+
+// Saved reviews, kept in the browser. A session holds everything needed to pick a review up again;
+// a share link only carries the rubric and the response, compressed into the URL fragment, so
+// nothing is ever sent to a server.
+
+export interface ReviewSession {
+  id: string;
+  name: string;
+  rubric: string;
+  response: string;
+  grammarResults: Record<string, CheckedText>;
+  ignores: GrammarIgnores;
+  createdAt: number; // ms since the epoch
+  updatedAt: number;
+}
+
+export type SessionContent = Pick<ReviewSession, 'rubric' | 'response' | 'grammarResults' | 'ignores'>;
+
+export interface SharedReview {
+  rubric: string;
+  response: string;
+}
+
+// The oldest sessions are dropped beyond this many, or once the saved sessions pass
+// SESSION_STORAGE_LIMIT characters of JSON (localStorage holds about 5 MB per site, shared with
+// the other settings), so a few long responses cannot fill it up.
+export const SESSION_LIMIT = 50;
+export const SESSION_STORAGE_LIMIT = 3_000_000;
+
+const SHARE_PARAM = 'review';
+
+export function newSession(content: SessionContent, name?: string): ReviewSession {
+  const now = Date.now();
+  return {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name || `Review ${new Date(now).toLocaleString()}`,
+    ...content,
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+// Most recently used first, within SESSION_LIMIT and SESSION_STORAGE_LIMIT. The newest session is
+// always kept, even when it is over the size limit by itself.
+export function upsertSession(sessions: ReviewSession[], session: ReviewSession): ReviewSession[] {
+  const kept = [session, ...sessions.filter((s) => s.id !== session.id)]
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .slice(0, SESSION_LIMIT);
+  const sizes = kept.map((s) => JSON.stringify(s).length);
+  let total = sizes.reduce((sum, size) => sum + size, 0);
+  while (kept.length > 1 && total > SESSION_STORAGE_LIMIT) {
+    kept.pop();
+    total -= sizes[kept.length];
+  }
+  return kept;
+}
+
+// Drops stored sessions that are not shaped like one (e.g. written by an older version).
+export function parseSessions(value: unknown): ReviewSession[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((s): s is ReviewSession => !!s && typeof s.id === 'string' && typeof s.rubric === 'string' && typeof s.response === 'string')
+    .map((s) => ({
+      ...s,
+      name: typeof s.name === 'string' ? s.name : 'Untitled review',
+      grammarResults: s.grammarResults && typeof s.grammarResults === 'object' ? s.grammarResults : {},
+      ignores: s.ignores && Array.isArray(s.ignores.rules) && Array.isArray(s.ignores.words) ? s.ignores : { rules: [], words: [] },
+      createdAt: Number(s.createdAt) || 0,
+      updatedAt: Number(s.updatedAt) || 0
+    }));
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream) {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// `#review=z.<data>` is deflate-compressed UTF-8 JSON; browsers without CompressionStream write
+// `#review=u.<data>` (the same JSON, uncompressed) instead.
+export async function encodeSharedReview(review: SharedReview): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify({ rubric: review.rubric, response: review.response }));
+  if (typeof CompressionStream === 'undefined') return `#${SHARE_PARAM}=u.${toBase64Url(bytes)}`;
+  return `#${SHARE_PARAM}=z.${toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')))}`;
+}
+
+// Undefined when the fragment is not a share link; throws when it is one but cannot be read.
+export async function decodeSharedReview(hash: string): Promise<SharedReview | undefined> {
+  const match = new RegExp(`^#?${SHARE_PARAM}=([zu])\\.([A-Za-z0-9_-]*)$`).exec(hash);
+  if (!match) return undefined;
+  if (match[1] === 'z' && typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot open compressed review links.');
+  }
+  let bytes: Uint8Array;
+  try {
+    bytes = fromBase64Url(match[2]);
+    if (match[1] === 'z') bytes = await transform(bytes, new DecompressionStream('deflate-raw'));
+  } catch {
+    throw new Error('The review link is damaged or incomplete.');
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new Error('The review link is damaged or incomplete.');
+  }
+  const review = data as Partial<SharedReview> | null;
+  if (!review || typeof review.rubric !== 'string' || typeof review.response !== 'string') {
+    throw new Error('The review link does not contain a rubric and response.');
+  }
+  return { rubric: review.rubric, response: review.response };
+}
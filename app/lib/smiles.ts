@@ -0,0 +1,312 @@
+import { ELEMENTS } from './elements';
+import { looksLikeSmiles } from './grammarMask';
+
+// A SMILES reader for checking what graders see: syntax (atoms, bonds, branches, ring closures),
+// basic valence of organic-subset atoms, and the molecular formula. Stereo marks are accepted but
+// not checked.
+
+export interface SmilesError {
+  message: string;
+  offset: number; // into the SMILES string
+  length: number;
+}
+
+export interface SmilesResult {
+  smiles: string;
+  errors: SmilesError[];
+  formula?: string; // Hill order, with the net charge; only for valid SMILES
+}
+
+export interface SmilesMatch {
+  text: string;
+  offset: number; // into the searched text
+}
+
+interface Atom {
+  symbol: string; // element symbol as written, e.g. "c", "Cl", "se"
+  aromatic: boolean;
+  bracket: boolean;
+  hydrogens: number; // explicit [..H2] count; implicit ones are worked out afterwards
+  charge: number;
+  offset: number;
+  length: number;
+  bondSum: number;
+}
+
+interface PendingBond {
+  symbol: string;
+  order: number;
+  offset: number;
+}
+
+const BOND_ORDERS: Record<string, number> = { '-': 1, '=': 2, '#': 3, $: 4, ':': 1, '/': 1, '\\': 1 };
+const ORGANIC = ['Cl', 'Br', 'B', 'C', 'N', 'O', 'P', 'S', 'F', 'I', 'b', 'c', 'n', 'o', 'p', 's', '*'];
+const AROMATIC = new Set(['b', 'c', 'n', 'o', 'p', 's', 'se', 'as', 'te']);
+// Normal valences of the organic subset, lowest first.
+const VALENCES: Record<string, number[]> = {
+  B: [3],
+  C: [4],
+  N: [3, 5],
+  O: [2],
+  P: [3, 5],
+  S: [2, 4, 6],
+  F: [1],
+  Cl: [1],
+  Br: [1],
+  I: [1]
+};
+const BRACKET_ATOM =
+  /^(\d+)?(\*|[A-Z][a-z]?|se|as|te|[bcnops])(@@?(?:TH[12]|AL[12]|SP[1-3]|TB\d{1,2}|OH\d{1,2})?)?(H\d*)?([+-](?:\d+|\+*|-*))?(?::\d+)?$/;
+
+function elementOf(atom: Atom) {
+  return atom.aromatic ? atom.symbol[0].toUpperCase() + atom.symbol.slice(1) : atom.symbol;
+}
+
+function chargeOf(text: string | undefined) {
+  if (!text) return 0;
+  const sign = text[0] === '+' ? 1 : -1;
+  const rest = text.slice(1);
+  return sign * (/^\d+$/.test(rest) ? Number(rest) : rest.length + 1);
+}
+
+// Implicit hydrogens of an organic-subset atom, or undefined when its bonds exceed every normal valence.
+function implicitHydrogens(atom: Atom) {
+  const valences = VALENCES[elementOf(atom)];
+  if (!valences) return 0;
+  if (atom.bondSum > valences[valences.length - 1]) return undefined;
+  // An aromatic atom gives one bond's worth of its lowest valence to the ring's pi system.
+  if (atom.aromatic) return Math.max(0, valences[0] - atom.bondSum - 1);
+  const valence = valences.find((v) => v >= atom.bondSum) as number;
+  return valence - atom.bondSum;
+}
+
+function hillFormula(atoms: Atom[], hydrogens: number[]) {
+  const counts = new Map<string, number>();
+  atoms.forEach((atom, idx) => {
+    if (atom.symbol === '*') return;
+    const element = elementOf(atom);
+    counts.set(element, (counts.get(element) ?? 0) + 1);
+    if (hydrogens[idx]) counts.set('H', (counts.get('H') ?? 0) + hydrogens[idx]);
+  });
+  const order = Array.from(counts.keys()).sort();
+  const hill = counts.has('C') ? ['C', ...(counts.has('H') ? ['H'] : []), ...order.filter((e) => e !== 'C' && e !== 'H')] : order;
+  const charge = atoms.reduce((sum, atom) => sum + atom.charge, 0);
+  const chargeText = charge ? `${Math.abs(charge) > 1 ? Math.abs(charge) : ''}${charge > 0 ? '+' : '-'}` : '';
+  return hill.map((e) => `${e}${counts.get(e) === 1 ? '' : counts.get(e)}`).join('') + chargeText;
+}
+
+export function parseSmiles(smiles: string): SmilesResult {
+  const errors: SmilesError[] = [];
+  const atoms: Atom[] = [];
+  const fail = (message: string, offset: number, length = 1) => errors.push({ message, offset, length });
+  if (!smiles) return { smiles, errors: [{ message: 'SMILES is empty.', offset: 0, length: 0 }] };
+
+  let prev: number | null = null;
+  let bond: PendingBond | null = null;
+  const branches: { atom: number; offset: number }[] = [];
+  const rings = new Map<number, { atom: number; bond: PendingBond | null; offset: number; length: number }>();
+  // Per dot-separated component: aromatic atoms need a ring to sit in.
+  let componentStart = 0;
+  let componentRings = 0;
+
+  function connect(a: number, b: number, order: number) {
+    atoms[a].bondSum += order;
+    atoms[b].bondSum += order;
+  }
+
+  function endComponent() {
+    const aromatic = atoms.slice(componentStart).find((atom) => atom.aromatic);
+    // An unclosed ring closure is the better report when one is pending.
+    if (aromatic && !componentRings && !rings.size) fail(`Aromatic atom ${aromatic.symbol} is not in a ring.`, aromatic.offset, aromatic.length);
+    componentStart = atoms.length;
+    componentRings = 0;
+  }
+
+  function addAtom(atom: Atom) {
+    atoms.push(atom);
+    const idx = atoms.length - 1;
+    if (prev !== null) connect(prev, idx, bond ? bond.order : 1);
+    prev = idx;
+    bond = null;
+  }
+
+  let i = 0;
+  while (i < smiles.length) {
+    const ch = smiles[i];
+
+    if (BOND_ORDERS[ch] !== undefined) {
+      if (prev === null) fail(`Bond "${ch}" has no atom before it.`, i);
+      else if (bond) fail(`Two bonds in a row ("${bond.symbol}${ch}").`, bond.offset, 2);
+      bond = { symbol: ch, order: BOND_ORDERS[ch], offset: i };
+      i += 1;
+      continue;
+    }
+
+    if (ch === '(') {
+      if (prev === null) fail('Branch opens before any atom.', i);
+      if (bond) fail(`Bond "${bond.symbol}" goes before the branch; put it inside: "(${bond.symbol}..."`, bond.offset);
+      if (smiles[i + 1] === ')') fail('Empty branch "()".', i, 2);
+      branches.push({ atom: prev ?? -1, offset: i });
+      bond = null;
+      i += 1;
+      continue;
+    }
+
+    if (ch === ')') {
+      if (bond) fail(`Bond "${bond.symbol}" at the end of a branch has no atom after it.`, bond.offset);
+      const open = branches.pop();
+      if (!open) fail('")" has no matching "(".', i);
+      else if (open.atom >= 0) prev = open.atom;
+      bond = null;
+      i += 1;
+      continue;
+    }
+
+    if (/\d/.test(ch) || ch === '%') {
+      const match = smiles.slice(i).match(/^(?:%(\d\d)|(\d))/);
+      if (!match) {
+        fail('"%" must be followed by a two-digit ring number.', i);
+        i += 1;
+        continue;
+      }
+      const number = Number(match[1] ?? match[2]);
+      const length = match[0].length;
+      if (prev === null) {
+        fail(`Ring closure ${number} has no atom before it.`, i, length);
+      } else {
+        const open = rings.get(number);
+        if (!open) {
+          rings.set(number, { atom: prev, bond, offset: i, length });
+        } else {
+          rings.delete(number);
+          if (open.atom === prev) fail(`Ring closure ${number} bonds an atom to itself.`, i, length);
+          else if (open.bond && bond && open.bond.order !== bond.order && open.bond.symbol !== '/' && open.bond.symbol !== '\\') {
+            fail(`Ring closure ${number} has different bonds at its two ends ("${open.bond.symbol}" and "${bond.symbol}").`, i, length);
+          } else {
+            connect(open.atom, prev, (bond ?? open.bond)?.order ?? 1);
+            componentRings += 1;
+          }
+        }
+      }
+      bond = null;
+      i += length;
+      continue;
+    }
+
+    if (ch === '.') {
+      if (bond) fail(`Bond "${bond.symbol}" before "." has no atom after it.`, bond.offset);
+      endComponent();
+      prev = null;
+      bond = null;
+      i += 1;
+      continue;
+    }
+
+    if (ch === '[') {
+      const close = smiles.indexOf(']', i);
+      if (close === -1) {
+        fail('"[" is never closed.', i);
+        break;
+      }
+      const inner = smiles.slice(i + 1, close);
+      const m = inner.match(BRACKET_ATOM);
+      const symbol = m?.[2] ?? '';
+      if (!m || (symbol !== '*' && !AROMATIC.has(symbol) && !ELEMENTS.has(symbol))) {
+        fail(`"[${inner}]" is not a valid bracket atom.`, i, close - i + 1);
+      } else {
+        addAtom({
+          symbol,
+          aromatic: AROMATIC.has(symbol),
+          bracket: true,
+          hydrogens: m[4] ? Number(m[4].slice(1) || 1) : 0,
+          charge: chargeOf(m[5]),
+          offset: i,
+          length: close - i + 1,
+          bondSum: 0
+        });
+      }
+      i = close + 1;
+      continue;
+    }
+
+    const organic = ORGANIC.find((symbol) => smiles.startsWith(symbol, i));
+    if (organic) {
+      addAtom({
+        symbol: organic,
+        aromatic: AROMATIC.has(organic),
+        bracket: false,
+        hydrogens: 0,
+        charge: 0,
+        offset: i,
+        length: organic.length,
+        bondSum: 0
+      });
+      i += organic.length;
+      continue;
+    }
+
+    // Common slips: "Na" or "H" outside brackets, "Cu" read as C then u.
+    const element = smiles.slice(i).match(/^[A-Z][a-z]?/)?.[0];
+    const afterAtom = /[a-z]/.test(ch) && i > 0 && ELEMENTS.has(smiles[i - 1] + ch) ? smiles[i - 1] + ch : undefined;
+    if (element && ELEMENTS.has(element)) fail(`${element} is outside the organic subset; write it in brackets: [${element}].`, i, element.length);
+    else if (afterAtom) fail(`${afterAtom} is outside the organic subset; write it in brackets: [${afterAtom}].`, i - 1, 2);
+    else fail(`Unexpected character "${ch}".`, i);
+    i += element?.length || 1;
+  }
+
+  if (bond) {
+    const pending: PendingBond = bond;
+    fail(`SMILES ends with bond "${pending.symbol}".`, pending.offset);
+  }
+  branches.forEach((open) => fail('"(" is never closed.', open.offset));
+  rings.forEach((open, number) => fail(`Ring closure ${number} is never closed.`, open.offset, open.length));
+  endComponent();
+
+  const hydrogens = atoms.map((atom) => {
+    if (atom.bracket) {
+      const valences = VALENCES[elementOf(atom)];
+      if (valences && !atom.charge && atom.bondSum + atom.hydrogens > valences[valences.length - 1]) {
+        fail(`${atom.symbol} has ${atom.bondSum + atom.hydrogens} bonds; at most ${valences[valences.length - 1]} are allowed.`, atom.offset, atom.length);
+      }
+      return atom.hydrogens;
+    }
+    const implicit = implicitHydrogens(atom);
+    if (implicit === undefined) {
+      const max = VALENCES[elementOf(atom)];
+      fail(`${atom.symbol} has ${atom.bondSum} bonds; at most ${max[max.length - 1]} are allowed.`, atom.offset, atom.length);
+      return 0;
+    }
+    return implicit;
+  });
+
+  errors.sort((a, b) => a.offset - b.offset);
+  return errors.length ? { smiles, errors } : { smiles, errors, formula: hillFormula(atoms, hydrogens) };
+}
+
+// An element-count formula such as CO2, SO4 or C2H6: element symbols, each with an optional count
+// of 2 or more, and at least one count. A ring closure (C1CC), a branch (CCO() or an aromatic atom
+// never fits, so malformed SMILES like those are still reported.
+function isCountFormula(token: string) {
+  const parts = token.match(/[A-Z][a-z]?(?:[2-9]|[1-9]\d+)?/g) ?? [];
+  if (parts.join('') !== token || !/\d/.test(token)) return false;
+  return parts.every((part) => ELEMENTS.has(part.replace(/\d+$/, '')));
+}
+
+// SMILES-looking tokens in prose. Math is skipped; text in backticks is searched like any other.
+export function findSmiles(text: string): SmilesMatch[] {
+  const searchable = text.replace(/\$\$[\s\S]*?\$\$|\$[^$\n]+\$/g, (math) => ' '.repeat(math.length));
+  const found: SmilesMatch[] = [];
+  const token = /[^\s,;`'"]+/g;
+  let m: RegExpExecArray | null;
+  while ((m = token.exec(searchable))) {
+    // Sentence punctuation and wrapping parentheses are not part of the SMILES (which cannot start with "(").
+    const lead = m[0].match(/^\(*/)?.[0].length ?? 0;
+    let candidate = m[0].slice(lead).replace(/[.:!?]+$/, '');
+    const count = (char: string) => candidate.split(char).length - 1;
+    while (candidate.endsWith(')') && count('(') < count(')')) candidate = candidate.slice(0, -1);
+    if (!looksLikeSmiles(candidate)) continue;
+    if (isCountFormula(candidate)) continue;
+    found.push({ text: candidate, offset: m.index + lead });
+  }
+  return found;
+}
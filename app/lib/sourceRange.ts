@@ -0,0 +1,88 @@
+export interface SourceRange {
+  line: number; // 1-based
+  startColumn: number; // 1-based, inclusive
+  endLine?: number; // set when the range spans several lines (multi-line values)
+  endColumn: number; // 1-based, exclusive; on endLine when set
+  startOffset: number; // absolute offsets into the raw text, for textarea selection
+  endOffset: number;
+}
+
+// A run of a decoded value that was copied verbatim from the source. Values that are not a
+// single verbatim slice (multi-line, escaped quotes) carry these so value offsets can be mapped back.
+export interface ValueSegment {
+  valueOffset: number;
+  sourceOffset: number;
+  length: number;
+}
+
+export interface KeyLocation {
+  line: SourceRange; // the whole `key: value` line (or field), without surrounding whitespace
+  key: SourceRange;
+  value: SourceRange; // the stored value, i.e. inside the quotes when they were stripped
+  segments?: ValueSegment[];
+}
+
+export interface SourceLine {
+  key?: string;
+  text: string;
+  range: SourceRange;
+}
+
+export function lineStartsOf(text: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+function positionOf(lineStarts: number[], offset: number) {
+  let lo = 0;
+  let hi = lineStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (lineStarts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+}
+
+export function rangeFromOffsets(lineStarts: number[], start: number, end: number): SourceRange {
+  const from = positionOf(lineStarts, start);
+  const to = positionOf(lineStarts, Math.max(start, end));
+  const range: SourceRange = {
+    line: from.line,
+    startColumn: from.column,
+    endColumn: to.column,
+    startOffset: start,
+    endOffset: Math.max(start, end)
+  };
+  if (to.line !== from.line) range.endLine = to.line;
+  return range;
+}
+
+// Maps an offset inside a decoded value (e.g., a grammar match in a justification) back to the
+// raw text. Returns undefined when the offset falls on text that has no verbatim source (such as
+// the newline joining two wrapped lines). Span ends pass edge 'end' so an offset between two
+// segments maps to the end of the earlier one.
+export function sourceOffsetOf(location: KeyLocation, valueOffset: number, edge: 'start' | 'end' = 'start') {
+  if (!location.segments) return location.value.startOffset + valueOffset;
+  const segment = location.segments.find((s) =>
+    edge === 'start'
+      ? valueOffset >= s.valueOffset && valueOffset < s.valueOffset + s.length
+      : valueOffset > s.valueOffset && valueOffset <= s.valueOffset + s.length
+  );
+  return segment ? segment.sourceOffset + (valueOffset - segment.valueOffset) : undefined;
+}
+
+// The range of `length` characters at `valueOffset` inside a decoded value; falls back to the
+// whole line when the span cannot be mapped exactly.
+export function valueSpanRange(lineStarts: number[], location: KeyLocation, valueOffset: number, length: number): SourceRange {
+  const start = sourceOffsetOf(location, valueOffset);
+  const end = length ? sourceOffsetOf(location, valueOffset + length, 'end') : start;
+  return start !== undefined && end !== undefined ? rangeFromOffsets(lineStarts, start, end) : location.line;
+}
+
+export function formatRange(range: SourceRange) {
+  return `${range.line}:${range.startColumn}`;
+}
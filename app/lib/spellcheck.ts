@@ -0,0 +1,152 @@
+import type { GrammarIssue } from './grammar';
+import { maskForGrammar, unmaskRange } from './grammarMask';
+
+// Offline spell checking against a bundled English word list plus the team dictionary. Issues use
+// the LanguageTool shape so they can be shown and applied the same way.
+
+export const SPELLING_RULE_ID = 'OFFLINE_SPELLING';
+
+// Seeded team dictionary: domain terms the English list does not know.
+export const DEFAULT_DICTIONARY = [
+  'RDKit',
+  'SMARTS',
+  'SMILES',
+  'InChI',
+  'InChIKey',
+  'cheminformatics',
+  'stereocenter',
+  'stereocenters',
+  'cyclohexenyl',
+  'Jupyter',
+  'NumPy',
+  'pandas',
+  'matplotlib',
+  'LaTeX',
+  'KaTeX'
+];
+
+export interface WordList {
+  words: Set<string>;
+  byInitial: Map<string, string[]>; // suggestion candidates, bucketed by first letter
+}
+
+let wordListPromise: Promise<WordList> | null = null;
+
+// The list is large (~275k words), so it is imported on first use into its own chunk.
+export function loadWordList(): Promise<WordList> {
+  if (!wordListPromise) {
+    wordListPromise = import('an-array-of-english-words').then((mod) => {
+      const list = mod.default;
+      const byInitial = new Map<string, string[]>();
+      list.forEach((word) => {
+        const bucket = byInitial.get(word[0]);
+        if (bucket) bucket.push(word);
+        else byInitial.set(word[0], [word]);
+      });
+      return { words: new Set(list), byInitial };
+    });
+  }
+  return wordListPromise;
+}
+
+const CONTRACTIONS = /(n't|'s|'re|'ve|'ll|'d|'m)$/;
+const IRREGULAR_CONTRACTIONS = ["can't", "won't", "shan't", "ain't", "y'all"];
+
+function isKnown(word: string, list: WordList, dictionary: Set<string>) {
+  const lower = word.toLowerCase().replace(/’/g, "'");
+  if (list.words.has(lower) || dictionary.has(lower) || IRREGULAR_CONTRACTIONS.includes(lower)) return true;
+  const base = lower.replace(CONTRACTIONS, '');
+  return base !== lower && (list.words.has(base) || dictionary.has(base));
+}
+
+// Optimal string alignment distance, giving up once it exceeds `max`.
+function distance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) value = Math.min(value, prevPrev[j - 2] + 1);
+      row.push(value);
+      best = Math.min(best, value);
+    }
+    if (best > max) return max + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+function matchCase(original: string, suggestion: string) {
+  if (original === original.toUpperCase()) return suggestion.toUpperCase();
+  if (original[0] === original[0].toUpperCase()) return suggestion[0].toUpperCase() + suggestion.slice(1);
+  return suggestion;
+}
+
+// The word list has no frequencies; among equally close candidates these come first.
+const COMMON_WORDS = (
+  'the be to of and a in that have it for not on with he as you do at this but his by from they we say her she or ' +
+  'an will my one all would there their what so up out if about who get which go me when make can like time no just ' +
+  'him know take people into year your good some could them see other than then now look only come its over think ' +
+  'also back after use two how our work first well way even new want because any these give day most us is are was ' +
+  'were been has had does did answer correct structure question drawing provided figure score'
+).split(' ');
+
+function sortedLetters(word: string) {
+  return word.split('').sort().join('');
+}
+
+export function suggest(word: string, list: WordList, dictionary: string[], limit = 3): string[] {
+  const lower = word.toLowerCase();
+  const max = lower.length <= 4 ? 1 : 2;
+  // Also look under the second letter, so a swapped first pair ("ot" -> "to") is found.
+  const initials = lower.length > 1 && lower[1] !== lower[0] ? [lower[0], lower[1]] : [lower[0]];
+  const candidates = initials.reduce<string[]>((acc, initial) => acc.concat(list.byInitial.get(initial) ?? []), []).concat(dictionary);
+  const letters = sortedLetters(lower);
+  const scored: { word: string; score: number }[] = [];
+  candidates.forEach((candidate) => {
+    const score = distance(lower, candidate.toLowerCase(), max);
+    if (score > max) return;
+    // Fractional bonuses only break ties between candidates at the same distance.
+    const bonus = (COMMON_WORDS.includes(candidate) ? 0.5 : 0) + (sortedLetters(candidate.toLowerCase()) === letters ? 0.25 : 0);
+    scored.push({ word: candidate, score: score - bonus });
+  });
+  return scored
+    .sort((a, b) => a.score - b.score || Math.abs(a.word.length - lower.length) - Math.abs(b.word.length - lower.length))
+    .slice(0, limit)
+    .map((s) => (dictionary.includes(s.word) ? s.word : matchCase(word, s.word)));
+}
+
+function contextOf(text: string, offset: number, length: number) {
+  const start = Math.max(0, offset - 20);
+  return text.slice(start, offset + length + 20);
+}
+
+// Words that are not in the list or the dictionary. Math, code, SMILES, formulas and identifiers
+// are skipped the same way as for LanguageTool, and so are all-caps words (acronyms).
+export function spellCheck(text: string, list: WordList, dictionary: string[]): GrammarIssue[] {
+  const known = new Set(dictionary.map((w) => w.toLowerCase()));
+  const masked = maskForGrammar(text);
+  const issues: GrammarIssue[] = [];
+  const wordPattern = /[A-Za-z]+(?:['’][A-Za-z]+)*/g;
+  let m: RegExpExecArray | null;
+  while ((m = wordPattern.exec(masked.text))) {
+    const range = unmaskRange(masked, m.index, m[0].length);
+    const word = m[0];
+    if (!range || word.length < 2 || word === word.toUpperCase() || isKnown(word, list, known)) continue;
+    issues.push({
+      message: `Possible spelling mistake: "${word}" is not in the word list or the team dictionary.`,
+      shortMessage: 'Spelling mistake',
+      replacements: suggest(word, list, dictionary),
+      context: contextOf(text, range.offset, range.length),
+      offset: range.offset,
+      length: range.length,
+      ruleId: SPELLING_RULE_ID
+    });
+  }
+  return issues;
+}
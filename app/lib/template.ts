@@ -0,0 +1,104 @@
+import { parseRubric } from './parseRubric';
+
+export type TemplateField = 'score' | 'verdict' | 'justification';
+
+export interface TemplateItem {
+  id: string;
+  maxScore?: number;
+  step?: number; // scores must be a multiple of this (e.g., 0.5)
+  required?: TemplateField[];
+}
+
+export interface RubricTemplate {
+  name?: string;
+  items: TemplateItem[];
+}
+
+const TEMPLATE_FIELDS: TemplateField[] = ['score', 'verdict', 'justification'];
+
+function parseFields(value: unknown, where: string): TemplateField[] {
+  const list = Array.isArray(value) ? value : String(value).split(',');
+  return list.map((raw) => {
+    const field = String(raw).trim().toLowerCase();
+    if (!TEMPLATE_FIELDS.includes(field as TemplateField)) {
+      throw new Error(`${where}: unknown required field "${field}" (use ${TEMPLATE_FIELDS.join(', ')}).`);
+    }
+    return field as TemplateField;
+  });
+}
+
+function parseNumber(value: unknown, where: string): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const numeric = Number(value);
+  if (Number.isNaN(numeric)) throw new Error(`${where}: "${value}" is not a number.`);
+  return numeric;
+}
+
+function parseJsonTemplate(text: string): RubricTemplate {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Template is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  const body = data as { name?: unknown; items?: unknown; defaults?: Record<string, unknown> };
+  if (!body || !Array.isArray(body.items)) {
+    throw new Error('JSON template needs an "items" array.');
+  }
+  const defaults = body.defaults ?? {};
+
+  const items = body.items.map((raw, idx) => {
+    const item = (raw ?? {}) as Record<string, unknown>;
+    const where = `items[${idx}]`;
+    if (typeof item.id !== 'string' || !item.id.trim()) throw new Error(`${where}: "id" is required.`);
+    const required = item.required ?? defaults.required;
+    return {
+      id: item.id.trim(),
+      maxScore: parseNumber(item.maxScore, `${where}.maxScore`),
+      step: parseNumber(item.step ?? defaults.step, `${where}.step`),
+      required: required === undefined ? undefined : parseFields(required, `${where}.required`)
+    };
+  });
+
+  return { name: typeof body.name === 'string' ? body.name : undefined, items };
+}
+
+// Same `key: value` format as rubrics, e.g. `Q2_C_1_max: 12`, `Q2_C_1_step: 0.5`,
+// `Q2_C_1_required: score, verdict, justification`.
+function parseKeyValueTemplate(text: string): RubricTemplate {
+  const parsed = parseRubric(text, { rules: [], format: 'kv' });
+  const items: TemplateItem[] = [];
+  let name: string | undefined;
+
+  parsed.entries.forEach((entry) => {
+    if (entry.id === 'name' && entry.raw.name !== undefined) {
+      name = entry.raw.name;
+      return;
+    }
+    const max = entry.raw[`${entry.id}_max`];
+    const step = entry.raw[`${entry.id}_step`];
+    const required = entry.raw[`${entry.id}_required`];
+    if (max === undefined && step === undefined && required === undefined) return;
+    items.push({
+      id: entry.id,
+      maxScore: parseNumber(max, `${entry.id}_max`),
+      step: parseNumber(step, `${entry.id}_step`),
+      required: required === undefined ? undefined : parseFields(required, `${entry.id}_required`)
+    });
+  });
+
+  if (parsed.unparsedLines.length) {
+    const { range, text: line } = parsed.unparsedLines[0];
+    throw new Error(`Template line ${range.line} is not \`key: value\`: ${line}`);
+  }
+  if (!items.length) {
+    throw new Error('Template declares no items (expected keys like `Q1_A_1_max: 4`).');
+  }
+  return { name, items };
+}
+
+export function parseTemplate(text: string): RubricTemplate {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error('Template is empty.');
+  return trimmed.startsWith('{') ? parseJsonTemplate(trimmed) : parseKeyValueTemplate(trimmed);
+}
@@ -0,0 +1,84 @@
+// Canonical spellings for domain terms (SMILES, Python, pKa, ...). The term-casing rule reports
+// every occurrence written with different casing.
+
+export const DEFAULT_TERMS = ['SMILES', 'SMARTS', 'Python', 'LaTeX', 'RDKit', 'NMR', 'pKa', 'InChI', 'NumPy', 'Jupyter'];
+
+export interface TermOccurrence {
+  offset: number;
+  length: number;
+  found: string;
+  canonical: string;
+}
+
+// Code, quotes, math and URLs are quoted material, so their casing is left alone.
+const EXCLUDED = /`[^`\n]*`|"[^"\n]*"|“[^”\n]*”|(?:^|[^A-Za-z0-9])'[^'\n]*'(?![A-Za-z0-9])|\$[^$\n]+\$|\bhttps?:\/\/\S+/g;
+
+function excludedSpans(text: string) {
+  const spans: [number, number][] = [];
+  EXCLUDED.lastIndex = 0;
+  let m: RegExpExecArray | null;
+  while ((m = EXCLUDED.exec(text))) spans.push([m.index, m.index + m[0].length]);
+  return spans;
+}
+
+function isWordChar(char: string | undefined) {
+  return !!char && /[A-Za-z0-9_]/.test(char);
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function findMiscasedTerms(text: string, terms: string[]): TermOccurrence[] {
+  const excluded = excludedSpans(text);
+  const found: TermOccurrence[] = [];
+  terms.forEach((canonical) => {
+    if (!canonical) return;
+    const pattern = new RegExp(escapeRegExp(canonical), 'gi');
+    let m: RegExpExecArray | null;
+    while ((m = pattern.exec(text))) {
+      const start = m.index;
+      const end = start + m[0].length;
+      if (m[0] === canonical || isWordChar(text[start - 1]) || isWordChar(text[end])) continue;
+      if (excluded.some(([from, to]) => start >= from && end <= to)) continue;
+      found.push({ offset: start, length: m[0].length, found: m[0], canonical });
+    }
+  });
+  return found.sort((a, b) => a.offset - b.offset);
+}
+
+// Imports a shared list: one term per line (`#` starts a comment), or JSON — an array of terms or
+// `{ "terms": [...] }` as written by exportTerms.
+export function parseTerms(text: string): string[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(trimmed);
+    } catch (err) {
+      throw new Error(`Term list is not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    const list = Array.isArray(data) ? data : (data as { terms?: unknown })?.terms;
+    if (!Array.isArray(list) || list.some((term) => typeof term !== 'string')) {
+      throw new Error('JSON term list must be an array of strings or { "terms": [...] }.');
+    }
+    return uniqueTerms(list as string[]);
+  }
+  return uniqueTerms(text.split(/\r?\n/).map((line) => line.replace(/#.*$/, '')));
+}
+
+// Trimmed, without blanks and case-insensitive duplicates (the first spelling wins).
+export function uniqueTerms(list: string[]) {
+  const seen = new Set<string>();
+  return list
+    .map((term) => term.trim())
+    .filter((term) => {
+      if (!term || seen.has(term.toLowerCase())) return false;
+      seen.add(term.toLowerCase());
+      return true;
+    });
+}
+
+export function exportTerms(terms: string[]) {
+  return `${JSON.stringify({ terms }, null, 2)}\n`;
+}
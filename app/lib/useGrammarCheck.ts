@@ -0,0 +1,157 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState, type Dispatch, type SetStateAction } from 'react';
+import { textHash, type CheckedText, type GrammarIssue, type GrammarResult } from './grammar';
+
+interface GrammarCheckOptions {
+  items: { id: string; text: string }[]; // justifications as they are now
+  results: Record<string, CheckedText>;
+  setResults: Dispatch<SetStateAction<Record<string, CheckedText>>>;
+  onError: (message: string | null) => void;
+  auto: boolean; // check changed justifications on its own after a pause in typing
+}
+
+export interface GrammarProgress {
+  done: number;
+  total: number;
+}
+
+const AUTO_CHECK_DELAY_MS = 1500;
+const CACHE_LIMIT = 500;
+
+// Runs the LanguageTool check through /api/grammar, streaming results into `results` as they
+// arrive. Only justifications whose text changed since their last successful check are sent,
+// each distinct text once, and texts seen before in this tab come from a cache. A running check
+// is stopped when the justifications change under it.
+export function useGrammarCheck({ items, results, setResults, onError, auto }: GrammarCheckOptions) {
+  const [progress, setProgress] = useState<GrammarProgress | null>(null);
+  const cache = useRef(new Map<string, { text: string; issues: GrammarIssue[] }>());
+  const running = useRef<AbortController | null>(null);
+  const latest = useRef({ items, results, setResults, onError });
+  latest.current = { items, results, setResults, onError };
+  const signature = useMemo(() => JSON.stringify(items), [items]);
+
+  const cancel = useCallback(() => {
+    running.current?.abort();
+    running.current = null;
+    setProgress(null);
+  }, []);
+
+  const run = useCallback(async () => {
+    const { items: current, results: checked, setResults: update, onError: report } = latest.current;
+    cancel();
+    report(null);
+    if (!current.length) {
+      report('No justifications were found to check.');
+      return;
+    }
+
+    const fromCache: Record<string, CheckedText> = {};
+    const pending = new Map<string, { text: string; ids: string[] }>(); // by text hash
+    current.forEach(({ id, text }) => {
+      const previous = checked[id];
+      if (previous && !previous.error && previous.text === text) return;
+      const key = textHash(text);
+      const hit = cache.current.get(key);
+      if (hit && hit.text === text) {
+        fromCache[id] = { text, issues: hit.issues };
+        return;
+      }
+      const group = pending.get(key);
+      if (group && group.text === text) group.ids.push(id);
+      else if (!group) pending.set(key, { text, ids: [id] });
+      else fromCache[id] = { text, issues: [], error: 'Not checked (hash collision); check again.' };
+    });
+    if (Object.keys(fromCache).length) update((prev) => ({ ...prev, ...fromCache }));
+    if (!pending.size) return;
+
+    const controller = new AbortController();
+    running.current = controller;
+    const total = pending.size;
+    let done = 0;
+    let failed: GrammarResult | undefined;
+    let failures = 0;
+    setProgress({ done, total });
+
+    const apply = (result: GrammarResult) => {
+      const group = pending.get(result.id);
+      if (!group) return;
+      done += 1;
+      setProgress({ done, total });
+      if (result.error) {
+        failures += 1;
+        failed = failed ?? result;
+      } else {
+        cache.current.set(result.id, { text: group.text, issues: result.issues });
+        if (cache.current.size > CACHE_LIMIT) cache.current.delete(cache.current.keys().next().value as string);
+      }
+      const entry: CheckedText = { text: group.text, issues: result.issues, error: result.error };
+      update((prev) => {
+        const next = { ...prev };
+        group.ids.forEach((id) => {
+          next[id] = entry;
+        });
+        return next;
+      });
+    };
+
+    try {
+      const res = await fetch('/api/grammar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          items: Array.from(pending.entries()).map(([key, group]) => ({ id: key, text: group.text })),
+          stream: true
+        }),
+        signal: controller.signal
+      });
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error ?? `Grammar check failed (${res.status}).`);
+      }
+
+      // NDJSON: one result per line; a chunk can end mid-line.
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      for (;;) {
+        const { done: finished, value } = await reader.read();
+        buffered += finished ? decoder.decode() : decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = finished ? '' : (lines.pop() as string);
+        lines.filter((line) => line.trim()).forEach((line) => apply(JSON.parse(line) as GrammarResult));
+        if (finished) break;
+      }
+
+      if (failures) report(`${failures} of ${total} justifications could not be checked (${failed?.error}).`);
+      else if (done < total) report('The grammar check ended early; check again to finish.');
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      report(err instanceof Error ? err.message : 'Grammar check failed.');
+    } finally {
+      if (running.current === controller) {
+        running.current = null;
+        setProgress(null);
+      }
+    }
+  }, [cancel]);
+
+  // Edits during a check make its remaining results stale, so stop it; auto mode starts over.
+  useEffect(() => {
+    if (!running.current) return;
+    cancel();
+    if (!auto) latest.current.onError('Grammar check stopped because the rubric changed; check again to finish.');
+  }, [signature, auto, cancel]);
+
+  useEffect(() => {
+    if (!auto) return;
+    const timer = setTimeout(() => {
+      if (latest.current.items.length) run();
+    }, AUTO_CHECK_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [signature, auto, run]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { run, cancel, progress, checking: progress !== null };
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+// useState backed by localStorage. The stored value is read after mount so server and
+// client render the same initial markup; the third element turns true once it has been read,
+// and the fourth says why the last write failed (null once a write succeeds).
+export function usePersistentState<T>(storageKey: string, initial: T) {
+  const [value, setValue] = useState<T>(initial);
+  const [loaded, setLoaded] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(storageKey);
+      if (stored !== null) setValue(JSON.parse(stored) as T);
+    } catch {
+      // Ignore unreadable or malformed storage and keep the initial value.
+    }
+    setLoaded(true);
+  }, [storageKey]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(value));
+      setSaveError(null);
+    } catch (err) {
+      // Storage can be full or disabled (private mode); the in-memory value still works.
+      const full = err instanceof DOMException && err.name === 'QuotaExceededError';
+      setSaveError(full ? 'browser storage is full' : 'browser storage is not available');
+    }
+  }, [storageKey, value, loaded]);
+
+  return [value, setValue, loaded, saveError] as const;
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  decodeSharedReview,
+  encodeSharedReview,
+  newSession,
+  parseSessions,
+  upsertSession,
+  type ReviewSession,
+  type SessionContent
+} from './sessions';
+import { usePersistentState } from './usePersistentState';
+
+const SAVE_DELAY_MS = 500;
+
+function sameContent(session: ReviewSession, content: SessionContent) {
+  return (
+    session.rubric === content.rubric &&
+    session.response === content.response &&
+    JSON.stringify(session.grammarResults) === JSON.stringify(content.grammarResults) &&
+    JSON.stringify(session.ignores) === JSON.stringify(content.ignores)
+  );
+}
+
+// Keeps the review on screen saved as the current session. On load, a share link in the URL
+// fragment is opened as a new session; otherwise the session that was open last comes back.
+// `open` puts a session's content on screen, including its own ignored grammar issues (new and
+// shared reviews start with none); `untouched` content (nothing pasted yet) is not saved.
+export function useReviewSessions(content: SessionContent, open: (content: SessionContent) => void, untouched: boolean) {
+  const [stored, setStored, sessionsLoaded, saveError] = usePersistentState<unknown>('rubric-checker:sessions', []);
+  const [currentId, setCurrentId, currentLoaded] = usePersistentState<string | null>('rubric-checker:current-session', null);
+  const sessions = useMemo(() => parseSessions(stored), [stored]);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const restoring = useRef(false);
+  const latest = useRef({ content, open });
+  latest.current = { content, open };
+
+  const openLink = useCallback(
+    async (hash: string) => {
+      const shared = await decodeSharedReview(hash);
+      if (!shared) return false;
+      const session = newSession(
+        { ...shared, grammarResults: {}, ignores: { rules: [], words: [] } },
+        `Shared review ${new Date().toLocaleString()}`
+      );
+      setStored((prev: unknown) => upsertSession(parseSessions(prev), session));
+      setCurrentId(session.id);
+      latest.current.open(session);
+      // Later edits are saved to the session; reloading should not open the link again.
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      return true;
+    },
+    [setStored, setCurrentId]
+  );
+
+  useEffect(() => {
+    if (!sessionsLoaded || !currentLoaded || restoring.current) return;
+    restoring.current = true;
+    const reopen = () => {
+      const current = sessions.find((s) => s.id === currentId);
+      if (current) latest.current.open(current);
+    };
+    openLink(window.location.hash)
+      .then((opened) => {
+        if (!opened) reopen();
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : 'The review link could not be opened.');
+        reopen();
+      })
+      .finally(() => setReady(true));
+  }, [sessionsLoaded, currentLoaded, sessions, currentId, openLink]);
+
+  // Links pasted into the address bar of an open page only change the fragment.
+  useEffect(() => {
+    if (!ready) return;
+    const onHashChange = () => {
+      openLink(window.location.hash).catch((err) =>
+        setError(err instanceof Error ? err.message : 'The review link could not be opened.')
+      );
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, [ready, openLink]);
+
+  useEffect(() => {
+    if (!ready) return;
+    const timer = setTimeout(() => {
+      const current = sessions.find((s) => s.id === currentId);
+      if (current) {
+        if (!sameContent(current, content)) setStored(upsertSession(sessions, { ...current, ...content, updatedAt: Date.now() }));
+      } else if (!untouched) {
+        const session = newSession(content);
+        setStored(upsertSession(sessions, session));
+        setCurrentId(session.id);
+      }
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [ready, content, untouched, sessions, currentId, setStored, setCurrentId]);
+
+  function openSession(id: string) {
+    const session = sessions.find((s) => s.id === id);
+    if (!session) return;
+    setCurrentId(id);
+    open(session);
+  }
+
+  function newReview() {
+    setCurrentId(null);
+    open({ rubric: '', response: '', grammarResults: {}, ignores: { rules: [], words: [] } });
+  }
+
+  function renameSession(id: string, name: string) {
+    setStored(sessions.map((s) => (s.id === id ? { ...s, name: name.trim() || s.name } : s)));
+  }
+
+  function deleteSession(id: string) {
+    setStored(sessions.filter((s) => s.id !== id));
+    if (id === currentId) newReview();
+  }
+
+  // The full page URL with the rubric and response in its fragment.
+  async function shareLink() {
+    const hash = await encodeSharedReview(content);
+    return `${window.location.origin}${window.location.pathname}${hash}`;
+  }
+
+  return {
+    sessions,
+    currentId,
+    error,
+    clearError: () => setError(null),
+    saveError: saveError && `This review could not be saved (${saveError}). Delete old reviews under History to make room.`,
+    openSession,
+    newReview,
+    renameSession,
+    deleteSession,
+    shareLink
+  };
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { GrammarIssue } from './grammar';
+import type { RubricEntry } from './parseRubric';
+import { loadWordList, spellCheck, type WordList } from './spellcheck';
+
+// Offline spelling issues per item id, recomputed as justifications change. Results are cached by
+// text, so typing in one justification only re-checks that one. Empty until the word list loads.
+export function useSpellCheck(entries: RubricEntry[], dictionary: string[], enabled = true) {
+  const [list, setList] = useState<WordList | null>(null);
+  const cache = useRef({ dictionary, issues: new Map<string, GrammarIssue[]>() });
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    loadWordList().then(
+      (loaded) => {
+        if (!cancelled) setList(loaded);
+      },
+      () => {
+        // Without the word list there is simply no offline checking.
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return useMemo(() => {
+    const results: Record<string, GrammarIssue[]> = {};
+    if (!enabled || !list) return results;
+    // Every keystroke adds an entry; start over now and then rather than keep them all.
+    if (cache.current.dictionary !== dictionary || cache.current.issues.size > 500) {
+      cache.current = { dictionary, issues: new Map() };
+    }
+    const cached = cache.current.issues;
+    entries.forEach((entry) => {
+      if (!entry.justification) return;
+      let issues = cached.get(entry.justification);
+      if (!issues) {
+        issues = spellCheck(entry.justification, list, dictionary);
+        cached.set(entry.justification, issues);
+      }
+      results[entry.id] = issues;
+    });
+    return results;
+  }, [entries, dictionary, list, enabled]);
+}
@@ -0,0 +1,62 @@
+// Reads the files out of a .zip archive in the browser, with no library: stored and deflated
+// entries are supported (which covers archives made by Finder, Explorer and `zip`); encrypted
+// entries and ZIP64 archives are not.
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+function findEndOfCentralDirectory(view: DataView) {
+  // The record is 22 bytes plus a comment of up to 65535 bytes.
+  const last = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let at = view.byteLength - 22; at >= last; at--) {
+    if (view.getUint32(at, true) === END_OF_CENTRAL_DIRECTORY) return at;
+  }
+  throw new Error('This is not a zip archive (no central directory was found).');
+}
+
+async function inflate(bytes: Uint8Array) {
+  if (typeof DecompressionStream === 'undefined') throw new Error('This browser cannot decompress zip archives.');
+  const output = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Entries whose name matches `include` (all files by default); directories are skipped.
+export async function readZip(buffer: ArrayBuffer, include: (path: string) => boolean = () => true): Promise<ZipEntry[]> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const names = new TextDecoder();
+  const end = findEndOfCentralDirectory(view);
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  if (count === 0xffff || at === 0xffffffff) throw new Error('ZIP64 archives are not supported; re-create the archive or drop the folder instead.');
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(at, true) !== CENTRAL_FILE_HEADER) throw new Error('The zip archive is damaged (bad central directory).');
+    const flags = view.getUint16(at + 8, true);
+    const method = view.getUint16(at + 10, true);
+    const compressedSize = view.getUint32(at + 20, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const extraLength = view.getUint16(at + 30, true);
+    const commentLength = view.getUint16(at + 32, true);
+    const localOffset = view.getUint32(at + 42, true);
+    const path = names.decode(bytes.subarray(at + 46, at + 46 + nameLength));
+    at += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/') || !include(path)) continue;
+    if (flags & 1) throw new Error(`${path} is encrypted; password-protected archives are not supported.`);
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error(`The zip archive is damaged (bad header for ${path}).`);
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) entries.push({ path, data: raw });
+    else if (method === 8) entries.push({ path, data: await inflate(raw) });
+    else throw new Error(`${path} uses an unsupported compression method (${method}).`);
+  }
+  return entries;
+}
@@ -1,25 +1,55 @@
 'use client';
 
-import { useMemo, useState } from 'react';
-import ReactMarkdown from 'react-markdown';
-import remarkMath from 'remark-math';
-import rehypeKatex from 'rehype-katex';
-import { parseRubric, type RubricEntry } from './lib/parseRubric';
-
-interface GrammarIssue {
-  message: string;
-  shortMessage?: string;
-  replacements: string[];
-  context: string;
-  offset: number;
-  length: number;
-  ruleId?: string;
-}
-
-interface GrammarResult {
-  id: string;
-  issues: GrammarIssue[];
-}
+import Link from 'next/link';
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import CoherencePanel from './components/CoherencePanel';
+import DiagnosticsList from './components/DiagnosticsList';
+import DictionaryPanel from './components/DictionaryPanel';
+import ExportMenu from './components/ExportMenu';
+import FixReview from './components/FixReview';
+import IgnoredIssues from './components/IgnoredIssues';
+import ItemEditor from './components/ItemEditor';
+import MarkdownPreview, { type MarkdownPreviewHandle } from './components/MarkdownPreview';
+import PythonBlockStatus from './components/PythonBlockStatus';
+import RubricEditor, { type RubricEditorHandle } from './components/RubricEditor';
+import RuleSettings from './components/RuleSettings';
+import ScoresTable from './components/ScoresTable';
+import SessionSidebar from './components/SessionSidebar';
+import SmilesPanel, { type SmilesOccurrence } from './components/SmilesPanel';
+import TemplatePanel from './components/TemplatePanel';
+import TerminologyPanel from './components/TerminologyPanel';
+import { DEFAULT_COHERENCE, parseCoherence, type CoherenceSettings } from './lib/coherence';
+import { sectionReferences } from './lib/crossCheck';
+import { countBySeverity, type RuleConfig } from './lib/diagnostics';
+import { formatScore } from './lib/format';
+import { FORMAT_LABELS, type FormatChoice } from './lib/formats';
+import {
+  applyReplacement,
+  grammarItems,
+  visibleIssues,
+  type CheckedText,
+  type GrammarIgnores,
+  type GrammarIssue,
+  type GrammarResult
+} from './lib/grammar';
+import { parseRubric } from './lib/parseRubric';
+import { buildReport } from './lib/report';
+import type { PythonCheckResult } from './lib/pythonCheck';
+import { extractResponseFacts } from './lib/responseFacts';
+import { lintResponse, RESPONSE_LINT_RULES } from './lib/responseLint';
+import { BUILTIN_RULES } from './lib/rules';
+import { justificationKey } from './lib/rubricKeys';
+import { applyEdits, spanEdit } from './lib/serialize';
+import { findSmiles } from './lib/smiles';
+import type { SessionContent } from './lib/sessions';
+import { lineStartsOf, rangeFromOffsets, valueSpanRange, type SourceRange } from './lib/sourceRange';
+import { DEFAULT_DICTIONARY } from './lib/spellcheck';
+import { useGrammarCheck } from './lib/useGrammarCheck';
+import { useSpellCheck } from './lib/useSpellCheck';
+import { parseTemplate } from './lib/template';
+import { DEFAULT_TERMS, parseTerms } from './lib/terminology';
+import { usePersistentState } from './lib/usePersistentState';
+import { useReviewSessions } from './lib/useReviewSessions';
 
 const SAMPLE = `Q2_A_1_score: 0 
 Q2_A_1_verdict: "WRONG_ANSWER"
@@ -57,115 +87,366 @@ Q2_score: 12
 Q2_verdict: "WRONG_ANSWER"
 Q2_justification: The majority of the question involves drawing. No Python drawing is provided except 2.4. However, the drawing in 2.4 cannot be run in python returned a sequencing error.`;
 
-function formatScore(value?: number) {
-  if (value === undefined || value === null) return '—';
-  const frac = Math.abs(value - Math.trunc(value));
-  if (frac >= 0.95) return Math.round(value).toString();
-  const fixed = value.toFixed(2);
-  return fixed.replace(/\.?0+$/, '');
-}
-
 export default function Page() {
   const [rawRubric, setRawRubric] = useState<string>(SAMPLE);
   const [modelResponse, setModelResponse] = useState<string>('');
-  const [grammarResults, setGrammarResults] = useState<Record<string, GrammarIssue[]>>({});
-  const [checking, setChecking] = useState(false);
+  const [grammarResults, setGrammarResults] = useState<Record<string, CheckedText>>({});
   const [error, setError] = useState<string | null>(null);
   const hasUnbalancedQuotes = useMemo(() => {
     const dq = (modelResponse.match(/"/g) || []).length;
     return dq % 2 === 1;
   }, [modelResponse]);
 
-  const parsed = useMemo(() => parseRubric(rawRubric), [rawRubric]);
+  const responseLint = useMemo(() => lintResponse(modelResponse), [modelResponse]);
 
-  const justificationItems = useMemo(
-    () => parsed.entries.filter((e) => e.justification).map((e) => ({ id: e.id, text: e.justification as string })),
-    [parsed.entries]
-  );
+  const editorRef = useRef<RubricEditorHandle>(null);
+  const responseRef = useRef<HTMLTextAreaElement>(null);
+  const previewRef = useRef<MarkdownPreviewHandle>(null);
+  const [ruleConfig, setRuleConfig] = usePersistentState<RuleConfig>('rubric-checker:rule-config', {});
 
-  async function runGrammarCheck() {
-    if (!justificationItems.length) {
-      setError('No justifications were found to check.');
-      return;
+  const [templateText, setTemplateText] = usePersistentState<string>('rubric-checker:template', '');
+
+  const { template, templateError } = useMemo(() => {
+    if (!templateText.trim()) return { template: undefined, templateError: null };
+    try {
+      return { template: parseTemplate(templateText), templateError: null };
+    } catch (err) {
+      return { template: undefined, templateError: err instanceof Error ? err.message : 'Invalid template.' };
+    }
+  }, [templateText]);
+
+  const [format, setFormat] = useState<FormatChoice>('auto');
+  const [reviewingFixes, setReviewingFixes] = useState(false);
+  // Ignores belong to the review on screen and are saved with its session.
+  const [grammarIgnores, setGrammarIgnores] = useState<GrammarIgnores>({ rules: [], words: [] });
+
+  const [termsText, setTermsText] = usePersistentState<string>('rubric-checker:terms', DEFAULT_TERMS.join('\n'));
+  const { terms, termsError } = useMemo(() => {
+    try {
+      return { terms: parseTerms(termsText), termsError: null };
+    } catch (err) {
+      return { terms: DEFAULT_TERMS, termsError: err instanceof Error ? err.message : 'Invalid term list.' };
     }
-    setChecking(true);
-    setError(null);
+  }, [termsText]);
+
+  const [storedCoherence, setCoherence] = usePersistentState<CoherenceSettings>(
+    'rubric-checker:coherence',
+    DEFAULT_COHERENCE
+  );
+  // Stored settings from an older version may be missing fields.
+  const coherence = useMemo(() => {
     try {
-      const res = await fetch('/api/grammar', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ items: justificationItems })
+      return parseCoherence(storedCoherence);
+    } catch {
+      return DEFAULT_COHERENCE;
+    }
+  }, [storedCoherence]);
+
+  const responseFacts = useMemo(
+    () => (modelResponse.trim() ? extractResponseFacts(modelResponse) : undefined),
+    [modelResponse]
+  );
+
+  const parsed = useMemo(
+    () => parseRubric(rawRubric, { format, ruleConfig, template, terms, coherence, response: responseFacts }),
+    [rawRubric, format, ruleConfig, template, terms, coherence, responseFacts]
+  );
+
+  // Response sections each justification mentions, for the links under it in the table.
+  const sectionLinks = useMemo(() => {
+    const links: Record<string, { number: string; line: number }[]> = {};
+    if (!responseFacts) return links;
+    parsed.entries.forEach((entry) => {
+      const found = sectionReferences(entry.justification ?? '', responseFacts).flatMap((ref) =>
+        ref.section ? [{ number: ref.number, line: ref.section.line }] : []
+      );
+      const unique = found.filter((link, idx) => found.findIndex((l) => l.number === link.number) === idx);
+      if (unique.length) links[entry.id] = unique;
+    });
+    return links;
+  }, [parsed.entries, responseFacts]);
+
+  const smilesOccurrences = useMemo(() => {
+    const found: SmilesOccurrence[] = [];
+    const responseStarts = lineStartsOf(modelResponse);
+    responseFacts?.smiles.forEach((match) => {
+      found.push({
+        text: match.text,
+        source: 'response',
+        label: 'Response',
+        range: rangeFromOffsets(responseStarts, match.offset, match.offset + match.text.length)
+      });
+    });
+    const rubricStarts = lineStartsOf(rawRubric);
+    parsed.entries.forEach((entry) => {
+      const key = justificationKey(entry);
+      if (!entry.justification || !key) return;
+      findSmiles(entry.justification).forEach((match) => {
+        found.push({
+          text: match.text,
+          source: 'rubric',
+          label: entry.id,
+          range: valueSpanRange(rubricStarts, entry.locations[key], match.offset, match.text.length)
+        });
       });
+    });
+    return found;
+  }, [modelResponse, responseFacts, rawRubric, parsed.entries]);
 
-      if (!res.ok) {
-        const msg = await res.text();
-        throw new Error(msg);
-      }
+  const pythonBlocks = useMemo(
+    () => responseFacts?.codeBlocks.filter((block) => block.language === 'python') ?? [],
+    [responseFacts]
+  );
+  const [pythonCheck, setPythonCheck] = useState<{ codes: string[]; result: PythonCheckResult } | null>(null);
+  const [checkingPython, setCheckingPython] = useState(false);
+  const [pythonError, setPythonError] = useState<string | null>(null);
+  const [runPython, setRunPython] = useState(false);
+  const [pythonExecution, setPythonExecution] = useState(false);
 
-      const data: { results: GrammarResult[] } = await res.json();
-      const mapped: Record<string, GrammarIssue[]> = {};
-      data.results.forEach((item) => {
-        mapped[item.id] = item.issues;
+  useEffect(() => {
+    fetch('/api/python')
+      .then((res) => (res.ok ? res.json() : { execute: false }))
+      .then((data: { execute?: boolean }) => setPythonExecution(Boolean(data.execute)))
+      .catch(() => setPythonExecution(false));
+  }, []);
+
+  async function runPythonCheck() {
+    const codes = pythonBlocks.map((block) => block.code);
+    setCheckingPython(true);
+    setPythonError(null);
+    try {
+      const res = await fetch('/api/python', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ blocks: codes, execute: runPython && pythonExecution })
       });
-      setGrammarResults(mapped);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? `Python check failed (${res.status}).`);
+      const result = data as PythonCheckResult;
+      if (!result.available) setPythonError(result.error ?? 'Python is not available on the server.');
+      setPythonCheck({ codes, result });
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Grammar check failed.';
-      setError(message);
+      setPythonError(err instanceof Error ? err.message : 'Python check failed.');
     } finally {
-      setChecking(false);
+      setCheckingPython(false);
     }
   }
 
-  const totalIssues = Object.values(grammarResults).reduce((sum, arr) => sum + arr.length, 0);
-
-  const formattingAlerts = [
-    parsed.invalidVerdicts.length ? `${parsed.invalidVerdicts.length} invalid verdict format(s)` : null,
-    parsed.missingJustifications.length ? `${parsed.missingJustifications.length} missing justification(s)` : null,
-    parsed.totalMismatches.length ? `${parsed.totalMismatches.length} total mismatch(es)` : null,
-    parsed.casingIssues.length ? `${parsed.casingIssues.length} casing issue(s)` : null,
-    parsed.missingComponents.length ? `${parsed.missingComponents.length} incomplete item(s)` : null,
-    parsed.duplicateKeys.length ? `${parsed.duplicateKeys.length} duplicate key(s)` : null,
-    parsed.skippedIndices.length ? `${parsed.skippedIndices.length} sequence gap(s)` : null,
-    parsed.zeroScoreAccepted.length ? `${parsed.zeroScoreAccepted.length} zero-score ACCEPTED item(s)` : null,
-    parsed.verdictConsistency.length ? `${parsed.verdictConsistency.length} final verdict consistency issue(s)` : null,
-    parsed.extraQuoteVerdicts.length ? `${parsed.extraQuoteVerdicts.length} verdict quote issue(s)` : null
-  ].filter(Boolean);
-
-  const totalErrors =
-    parsed.invalidVerdicts.length +
-    parsed.missingJustifications.length +
-    parsed.totalMismatches.length +
-    parsed.casingIssues.length +
-    parsed.missingComponents.length +
-    parsed.duplicateKeys.length +
-    parsed.skippedIndices.length +
-    parsed.zeroScoreAccepted.length +
-    parsed.verdictConsistency.length +
-    parsed.extraQuoteVerdicts.length;
+  // Results stay attached to a block only while its code is unchanged.
+  const pythonNotes = useMemo(() => {
+    const notes: Record<number, ReactNode> = {};
+    if (!pythonCheck) return notes;
+    pythonBlocks.forEach((block) => {
+      const idx = pythonCheck.codes.indexOf(block.code);
+      const result = pythonCheck.result.results.find((r) => r.index === idx);
+      if (result) notes[block.line] = <PythonBlockStatus result={result} fenceLine={block.line} />;
+    });
+    return notes;
+  }, [pythonBlocks, pythonCheck]);
+
+  const justificationItems = useMemo(() => grammarItems(parsed.entries), [parsed.entries]);
+
+  const [dictionaryText, setDictionaryText] = usePersistentState<string>(
+    'rubric-checker:dictionary',
+    DEFAULT_DICTIONARY.join('\n')
+  );
+  const dictionary = useMemo(
+    () => dictionaryText.split('\n').map((term) => term.trim()).filter(Boolean),
+    [dictionaryText]
+  );
+  const spellingResults = useSpellCheck(parsed.entries, dictionary);
+  // Team dictionary words are accepted by LanguageTool's results as well.
+  const effectiveIgnores = useMemo(
+    () => ({ ...grammarIgnores, words: grammarIgnores.words.concat(dictionary) }),
+    [grammarIgnores, dictionary]
+  );
+
+  const [autoGrammar, setAutoGrammar] = usePersistentState<boolean>('rubric-checker:grammar-auto', false);
+  const grammarCheck = useGrammarCheck({
+    items: justificationItems,
+    results: grammarResults,
+    setResults: setGrammarResults,
+    onError: setError,
+    auto: autoGrammar
+  });
+
+  // Rewrites the flagged span in the rubric text itself; the table follows from the re-parse.
+  function applyGrammarFix(itemId: string, issue: GrammarIssue, replacement: string) {
+    const entry = parsed.entries.find((e) => e.id === itemId);
+    const key = entry && justificationKey(entry);
+    const checked = grammarResults[itemId];
+    const edit = key && entry ? spanEdit(parsed.format, rawRubric, entry.locations[key], issue.offset, issue.length, replacement) : undefined;
+    if (!edit) {
+      setError(`The suggestion for ${itemId} spans text that cannot be edited automatically; please change it in the rubric.`);
+      return;
+    }
+    setRawRubric(applyEdits(rawRubric, [edit]));
+    // Keep LanguageTool results in step with the edited text; spelling re-runs on its own.
+    if (checked && checked.text === entry?.justification) {
+      setGrammarResults((prev) => ({ ...prev, [itemId]: applyReplacement(checked, issue, replacement) }));
+    }
+  }
+
+  function revealInResponse(range: SourceRange) {
+    const textarea = responseRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(range.startOffset, range.endOffset);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, (range.line - 3) * lineHeight);
+  }
+
+  function ignoreWord(word: string) {
+    setGrammarIgnores((prev) => (prev.words.includes(word) ? prev : { ...prev, words: [...prev.words, word] }));
+  }
+
+  function ignoreRule(ruleId: string) {
+    setGrammarIgnores((prev) => (prev.rules.includes(ruleId) ? prev : { ...prev, rules: [...prev.rules, ruleId] }));
+  }
+
+  function addToDictionary(word: string) {
+    if (dictionary.some((term) => term.toLowerCase() === word.toLowerCase())) return;
+    setDictionaryText((prev) => `${prev.trimEnd()}\n${word}`);
+  }
+
+  const totalIssues = parsed.entries.reduce((sum, entry) => {
+    const { issues } = visibleIssues(entry.justification, grammarResults[entry.id], spellingResults[entry.id], effectiveIgnores);
+    return sum + (issues?.length ?? 0);
+  }, 0);
+
+  // The report behind the exports: grammar flags as shown in the table (ignores applied).
+  function auditReport() {
+    const grammar: GrammarResult[] = parsed.entries.flatMap((entry) => {
+      const checked = grammarResults[entry.id];
+      const { issues = [] } = visibleIssues(entry.justification, checked, spellingResults[entry.id], effectiveIgnores);
+      return issues.length || checked?.error ? [{ id: entry.id, issues, error: checked?.error }] : [];
+    });
+    return buildReport(parsed, { raw: rawRubric, grammar, responseLint: modelResponse.trim() ? responseLint : undefined });
+  }
+
+  const sessionContent = useMemo(
+    () => ({ rubric: rawRubric, response: modelResponse, grammarResults, ignores: grammarIgnores }),
+    [rawRubric, modelResponse, grammarResults, grammarIgnores]
+  );
+  const review = useReviewSessions(
+    sessionContent,
+    (content: SessionContent) => {
+      setRawRubric(content.rubric);
+      setModelResponse(content.response);
+      setGrammarResults(content.grammarResults);
+      setGrammarIgnores(content.ignores);
+      setPythonCheck(null);
+      setError(null);
+    },
+    (!rawRubric.trim() || rawRubric === SAMPLE) && !modelResponse.trim()
+  );
+  const [showHistory, setShowHistory] = useState(false);
+  const [linkStatus, setLinkStatus] = useState<string | null>(null);
+
+  async function copyShareLink() {
+    try {
+      const link = await review.shareLink();
+      await navigator.clipboard.writeText(link);
+      setLinkStatus(`Link copied (${link.length.toLocaleString()} characters).`);
+    } catch (err) {
+      setLinkStatus(err instanceof Error ? `Could not copy the link: ${err.message}` : 'Could not copy the link.');
+    }
+  }
+
+  const severityCounts = countBySeverity(parsed.diagnostics);
+  const fixableCount = parsed.diagnostics.filter((d) => d.fix).length;
 
   return (
     <div className="container">
       <header>
         <h1>Rubric Checker</h1>
-        <p>Paste rubric text, double-check scoring, and spot grammar issues in one sweep.</p>
+        <p>
+          Paste rubric text, double-check scoring, and spot grammar issues in one sweep.{' '}
+          <Link href="/compare">Compare graders</Link> · <Link href="/revisions">Compare revisions</Link> ·{' '}
+          <Link href="/batch">Batch check</Link>
+        </p>
+        <div className="controls" style={{ marginTop: 0 }}>
+          <button className="button-secondary" onClick={() => setShowHistory((open) => !open)}>
+            History ({review.sessions.length})
+          </button>
+          <button className="button-secondary" onClick={copyShareLink}>
+            Copy link
+          </button>
+          {linkStatus && <span className="justification">{linkStatus}</span>}
+        </div>
+        {review.error && (
+          <p style={{ color: 'var(--error)' }}>
+            {review.error}{' '}
+            <button className="link-button" onClick={review.clearError}>
+              Dismiss
+            </button>
+          </p>
+        )}
+        {review.saveError && <p style={{ color: 'var(--error)' }}>{review.saveError}</p>}
       </header>
+      {showHistory && (
+        <SessionSidebar
+          sessions={review.sessions}
+          currentId={review.currentId}
+          onOpen={review.openSession}
+          onNew={review.newReview}
+          onRename={review.renameSession}
+          onDelete={review.deleteSession}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
 
       <div className="section-grid">
         <div className="card">
           <h3 style={{ marginTop: 0 }}>Rubric Text</h3>
-          <textarea
-            className="textarea"
+          <RubricEditor
+            ref={editorRef}
             value={rawRubric}
-            onChange={(e) => setRawRubric(e.target.value)}
-            spellCheck={false}
+            onChange={setRawRubric}
+            diagnostics={parsed.diagnostics}
           />
           <div className="controls">
             <button onClick={() => setRawRubric('')}>Clear</button>
             <button className="button-secondary" onClick={() => setRawRubric(SAMPLE)}>Load Sample</button>
-            <button onClick={runGrammarCheck} disabled={checking}>
-              {checking ? 'Checking…' : `Check grammar (${justificationItems.length})`}
+            {grammarCheck.progress ? (
+              <button onClick={grammarCheck.cancel} title="Stop checking; finished justifications keep their results">
+                Checking… {grammarCheck.progress.done}/{grammarCheck.progress.total}
+              </button>
+            ) : (
+              <button onClick={grammarCheck.run}>Check grammar ({justificationItems.length})</button>
+            )}
+            <label className="justification" title="Check changed justifications a moment after you stop typing">
+              <input type="checkbox" checked={autoGrammar} onChange={(e) => setAutoGrammar(e.target.checked)} /> Auto-check
+            </label>
+            <button className="button-secondary" onClick={() => setReviewingFixes(true)} disabled={!fixableCount}>
+              Fix ({fixableCount})
             </button>
+            <select
+              className="select"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as FormatChoice)}
+              aria-label="Rubric format"
+            >
+              {(Object.keys(FORMAT_LABELS) as FormatChoice[]).map((choice) => (
+                <option key={choice} value={choice}>
+                  {choice === 'auto' ? `${FORMAT_LABELS.auto} (${FORMAT_LABELS[parsed.format]})` : FORMAT_LABELS[choice]}
+                </option>
+              ))}
+            </select>
           </div>
+          {reviewingFixes && (
+            <FixReview
+              raw={rawRubric}
+              diagnostics={parsed.diagnostics}
+              rules={BUILTIN_RULES}
+              onApply={(text) => {
+                setRawRubric(text);
+                setReviewingFixes(false);
+              }}
+              onClose={() => setReviewingFixes(false)}
+            />
+          )}
+          <TemplatePanel text={templateText} onChange={setTemplateText} template={template} error={templateError} />
           {error ? (
             <p style={{ color: 'var(--error)', marginTop: 10 }}>{error}</p>
           ) : (
@@ -182,6 +463,14 @@ export default function Page() {
               <h3>Expected Total</h3>
               <strong>{formatScore(parsed.expectedTotal)}</strong>
             </div>
+            {parsed.possibleTotal !== undefined && (
+              <div className="stat">
+                <h3>Score / Possible</h3>
+                <strong>
+                  {formatScore(parsed.expectedTotal)} / {formatScore(parsed.possibleTotal)}
+                </strong>
+              </div>
+            )}
             <div className="stat">
               <h3>Items</h3>
               <strong>{parsed.entries.length}</strong>
@@ -196,200 +485,92 @@ export default function Page() {
             </div>
             <div className="stat">
               <h3>Total Errors</h3>
-              <strong>{totalErrors}</strong>
+              <strong>{severityCounts.error}</strong>
+            </div>
+            <div className="stat">
+              <h3>Warnings</h3>
+              <strong>{severityCounts.warning}</strong>
+            </div>
+            {severityCounts.info > 0 && (
+              <div className="stat">
+                <h3>Info</h3>
+                <strong>{severityCounts.info}</strong>
+              </div>
+            )}
+            <div className="stat">
+              <h3>Response Issues</h3>
+              <strong>{responseLint.length}</strong>
             </div>
           </div>
+          <ExportMenu buildReport={auditReport} disabled={!parsed.entries.length} />
         </div>
       </div>
 
+      <div className="card" style={{ marginTop: 18 }}>
+        <ItemEditor
+          raw={rawRubric}
+          entries={parsed.entries}
+          format={parsed.format}
+          onChange={(text) => {
+            setRawRubric(text);
+            // The form writes key: value text, which a forced JSON/YAML/CSV reader would reject.
+            if (format !== 'auto' && format !== 'kv') setFormat('kv');
+          }}
+        />
+      </div>
+
       <div className="card" style={{ marginTop: 18 }}>
         <h3 style={{ marginTop: 0 }}>Enter the model response here for a markdown preview</h3>
         <textarea
+          ref={responseRef}
           className="textarea"
           style={{ minHeight: 180, minWidth: '50%' }}
           value={modelResponse}
           onChange={(e) => setModelResponse(e.target.value)}
           placeholder="Type or paste the model's response here..."
         />
+        <DiagnosticsList
+          diagnostics={responseLint}
+          rules={RESPONSE_LINT_RULES}
+          onSelect={revealInResponse}
+          heading="Response issues found:"
+        />
+        <SmilesPanel
+          occurrences={smilesOccurrences}
+          onLocate={(occurrence) =>
+            occurrence.source === 'response' ? revealInResponse(occurrence.range) : editorRef.current?.reveal(occurrence.range)
+          }
+        />
       </div>
 
       <div className="card" style={{ marginTop: 18 }}>
         <h3 style={{ marginTop: 0 }}>Scores &amp; verdicts</h3>
         <p className="justification" style={{ marginBottom: 8 }}>
-          Spelling errors might be erroneous if they are related to chemistry formulas or LaTeX code.
-          Please ignore the warnings if they are not errors. Use your best judgement and remember this is a tool—your judgement is more important.
+          Math, code, SMILES, chemical formulas and identifiers are skipped by the grammar check.
+          Use your best judgement and remember this is a tool—your judgement is more important.
         </p>
-        {formattingAlerts.length > 0 && (
-          <div className="card" style={{ margin: '12px 0', background: 'rgba(244, 63, 94, 0.08)', borderColor: 'rgba(244, 63, 94, 0.4)' }}>
-            <strong>Formatting issues found:</strong>
-            <ul className="issues">
-              {parsed.invalidVerdicts.length > 0 && (
-                <li>
-                  Invalid verdict format: {parsed.invalidVerdicts.length} item(s). Allowed: "ACCEPTED" or "WRONG_ANSWER".
-                </li>
-              )}
-              {parsed.missingJustifications.length > 0 && (
-                <li>Missing justification: {parsed.missingJustifications.length} item(s).</li>
-              )}
-              {parsed.totalMismatches.length > 0 && (
-                <li>
-                  Total mismatches:
-                  <ul className="issues">
-                    {parsed.totalMismatches.map((m) => (
-                      <li key={`total-${m.id}`}>
-                        {m.id} reported {formatScore(m.reported)}, expected {formatScore(m.expected)}
-                      </li>
-                    ))}
-                  </ul>
-                </li>
-              )}
-              {parsed.casingIssues.length > 0 && (
-                <li>
-                  Casing issues:
-                  <ul className="issues">
-                    {parsed.casingIssues.map((c, idx) => (
-                      <li key={`casing-${idx}`}>
-                        {c.id}: ensure {c.type === 'SMILES' ? 'SMILES' : 'Python'} is uppercase/correct casing.
-                      </li>
-                    ))}
-                  </ul>
-                </li>
-              )}
-              {parsed.missingComponents.length > 0 && (
-                <li>
-                  Incomplete items:
-                  <ul className="issues">
-                    {parsed.missingComponents.map((m, idx) => (
-                      <li key={`missing-${idx}`}>
-                        {m.id}: missing {m.missing.join(', ')}
-                      </li>
-                    ))}
-                  </ul>
-                </li>
-              )}
-              {parsed.duplicateKeys.length > 0 && (
-                <li>
-                  Duplicate keys: {parsed.duplicateKeys.join(', ')}
-                </li>
-              )}
-              {parsed.skippedIndices.length > 0 && (
-                <li>
-                  Sequence gaps:
-                  <ul className="issues">
-                    {parsed.skippedIndices.map((s, idx) => (
-                      <li key={`skip-${idx}`}>
-                        {s.group} missing {s.missing.join(', ')}
-                      </li>
-                    ))}
-                  </ul>
-                </li>
-              )}
-              {parsed.zeroScoreAccepted.length > 0 && (
-                <li>
-                  Zero-score accepted items: {parsed.zeroScoreAccepted.map((z) => z.id).join(', ')}
-                </li>
-              )}
-              {parsed.verdictConsistency.length > 0 && (
-                <li>
-                  Final verdict consistency:
-                  <ul className="issues">
-                    {parsed.verdictConsistency.map((v, idx) => (
-                      <li key={`vc-${idx}`}>
-                        {v.id}: {v.message}
-                      </li>
-                    ))}
-                  </ul>
-                </li>
-              )}
-              {parsed.extraQuoteVerdicts.length > 0 && (
-                <li>
-                  Verdict quote issues:
-                  <ul className="issues">
-                    {parsed.extraQuoteVerdicts.map((v, idx) => (
-                      <li key={`vq-${idx}`}>
-                        {v.id}: found extra quotes ({v.raw})
-                      </li>
-                    ))}
-                  </ul>
-                </li>
-              )}
-            </ul>
-          </div>
-        )}
-        <table className="table">
-          <thead>
-            <tr>
-              <th style={{ width: '18%' }}>Item</th>
-              <th style={{ width: '10%' }}>Score</th>
-              <th style={{ width: '16%' }}>Verdict</th>
-              <th>Justification</th>
-            </tr>
-          </thead>
-          <tbody>
-            {parsed.entries.map((entry) => {
-              const verdict = (entry.verdict ?? '').toUpperCase();
-              const issues = grammarResults[entry.id];
-              const badgeLabel = issues
-                ? issues.length === 0
-                  ? 'Clean'
-                  : `${issues.length} issue${issues.length > 1 ? 's' : ''}`
-                : 'Not checked';
-              const badgeClass = issues
-                ? issues.length === 0
-                  ? 'badge-ok'
-                  : 'badge-warn'
-                : 'badge';
-
-              return (
-                <tr key={entry.id}>
-                  <td><strong>{entry.id}</strong></td>
-                  <td>{formatScore(entry.score)}</td>
-                  <td>
-                    <span
-                      className={
-                        verdict.includes('WRONG')
-                          ? 'badge badge-error'
-                          : verdict.includes('CORRECT')
-                            ? 'badge badge-ok'
-                            : 'badge'
-                      }
-                    >
-                      {entry.verdict ?? '—'}
-                    </span>
-                  </td>
-                  <td>
-                    {entry.justification ? (
-                      <div>
-                        <div className="justification">{entry.justification}</div>
-                        <div style={{ marginTop: 6 }}>
-                          <span className={`badge ${badgeClass}`}>{badgeLabel}</span>
-                        </div>
-                        {issues && issues.length > 0 && (
-                          <ul className="issues">
-                            {issues.map((issue, idx) => (
-                              <li key={`${entry.id}-issue-${idx}`}>
-                                {issue.shortMessage ?? issue.message}
-                                {issue.replacements.length ? (
-                                  <span style={{ marginLeft: 6, color: 'var(--muted)' }}>
-                                    → {issue.replacements.slice(0, 3).join(', ')}
-                                  </span>
-                                ) : null}
-                              </li>
-                            ))}
-                          </ul>
-                        )}
-                      </div>
-                    ) : (
-                      <span className="justification" style={{ color: 'var(--muted)' }}>
-                        No justification provided.
-                      </span>
-                    )}
-                  </td>
-                </tr>
-              );
-            })}
-          </tbody>
-        </table>
+        <RuleSettings rules={BUILTIN_RULES} config={ruleConfig} onChange={setRuleConfig} />
+        <TerminologyPanel text={termsText} onChange={setTermsText} terms={terms} error={termsError} />
+        <CoherencePanel settings={coherence} onChange={setCoherence} />
+        <DiagnosticsList
+          diagnostics={parsed.diagnostics}
+          rules={BUILTIN_RULES}
+          onSelect={(range) => editorRef.current?.reveal(range)}
+        />
+        <DictionaryPanel text={dictionaryText} onChange={setDictionaryText} terms={dictionary.length} />
+        <IgnoredIssues ignores={grammarIgnores} onChange={setGrammarIgnores} />
+        <ScoresTable
+          tree={parsed.tree}
+          grammarResults={grammarResults}
+          spellingResults={spellingResults}
+          ignores={effectiveIgnores}
+          onApplyGrammar={applyGrammarFix}
+          onIgnoreWord={ignoreWord}
+          onIgnoreRule={ignoreRule}
+          onAddToDictionary={addToDictionary}
+          sectionLinks={sectionLinks}
+          onRevealSection={(line) => previewRef.current?.revealLine(line)}
+        />
       </div>
 
       <div className="card" style={{ marginTop: 18 }}>
@@ -402,19 +583,34 @@ export default function Page() {
             </span>
           )}
         </p>
+        {pythonBlocks.length > 0 && (
+          <div className="controls">
+            <button onClick={runPythonCheck} disabled={checkingPython}>
+              {checkingPython ? 'Checking…' : `Check Python (${pythonBlocks.length})`}
+            </button>
+            <label
+              className="justification"
+              title={pythonExecution ? undefined : 'Running code is turned off on this server (PYTHON_EXECUTION), or it cannot set up a sandbox.'}
+            >
+              <input
+                type="checkbox"
+                checked={runPython && pythonExecution}
+                disabled={!pythonExecution}
+                onChange={(e) => setRunPython(e.target.checked)}
+              />{' '}
+              Also run it (time- and memory-limited, no network)
+            </label>
+          </div>
+        )}
+        {pythonError && <p style={{ color: 'var(--error)', marginTop: 10 }}>{pythonError}</p>}
         <div style={{ marginTop: 12, padding: '12px 14px', borderRadius: 12, border: '1px solid var(--surface-strong)', background: 'rgba(255,255,255,0.02)' }}>
-          <ReactMarkdown
-            className="markdown"
-            remarkPlugins={[remarkMath]}
-            rehypePlugins={[rehypeKatex]}
-          >
-            {modelResponse || '_Nothing to preview_'}
-          </ReactMarkdown>
+          <MarkdownPreview ref={previewRef} source={modelResponse} blockNotes={pythonNotes} />
         </div>
       </div>
 
       <p className="footer">
-        All processing happens client-side except grammar checks, which use the LanguageTool API via a serverless route.
+        All processing happens client-side except grammar checks, which use the LanguageTool API via a serverless route
+        (<code>/api/grammar</code>), and Python checks, which run python3 on the server (<code>/api/python</code>).
       </p>
     </div>
   );
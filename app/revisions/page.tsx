@@ -0,0 +1,225 @@
+'use client';
+
+import Link from 'next/link';
+import { useMemo, useState } from 'react';
+import { formatScore } from '../lib/format';
+import { parseRubric } from '../lib/parseRubric';
+import { diffRubrics, type ItemDiff, type WordDiffPart } from '../lib/rubricDiff';
+import { usePersistentState } from '../lib/usePersistentState';
+
+interface RevisionInput {
+  original: string;
+  revised: string;
+}
+
+const CHANGE_LABELS: Record<ItemDiff['change'], string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged'
+};
+
+function signed(value: number) {
+  return value > 0 ? `+${formatScore(value)}` : formatScore(value);
+}
+
+function verdictBadge(verdict?: string) {
+  if (!verdict) return 'badge';
+  if (verdict.includes('WRONG')) return 'badge badge-error';
+  if (verdict === 'ACCEPTED') return 'badge badge-ok';
+  return 'badge';
+}
+
+function changeBadge(change: ItemDiff['change']) {
+  if (change === 'added') return 'badge badge-ok';
+  if (change === 'removed') return 'badge badge-error';
+  if (change === 'changed') return 'badge badge-warn';
+  return 'badge';
+}
+
+function WordDiff({ parts }: { parts: WordDiffPart[] }) {
+  return (
+    <span className="word-diff">
+      {parts.map((part, idx) => {
+        if (part.op === 'insert') return <ins key={idx}>{part.text}</ins>;
+        if (part.op === 'delete') return <del key={idx}>{part.text}</del>;
+        return <span key={idx}>{part.text}</span>;
+      })}
+    </span>
+  );
+}
+
+function ScoreCell({ item }: { item: ItemDiff }) {
+  const before = item.before?.score;
+  const after = item.after?.score;
+  if (!item.scoreChanged) return <>{formatScore(after ?? before)}</>;
+  return (
+    <>
+      {formatScore(before)} → {formatScore(after)}
+      {item.scoreDelta !== undefined && <span className="justification"> ({signed(item.scoreDelta)})</span>}
+    </>
+  );
+}
+
+function VerdictCell({ item }: { item: ItemDiff }) {
+  const { verdictBefore, verdictAfter } = item;
+  if (!item.verdictChanged) {
+    const verdict = verdictAfter ?? verdictBefore;
+    return verdict ? <span className={verdictBadge(verdict)}>{verdict}</span> : <>—</>;
+  }
+  return (
+    <>
+      {verdictBefore ? <span className={verdictBadge(verdictBefore)}>{verdictBefore}</span> : '—'} →{' '}
+      {verdictAfter ? <span className={verdictBadge(verdictAfter)}>{verdictAfter}</span> : '—'}
+    </>
+  );
+}
+
+export default function RevisionsPage() {
+  const [input, setInput] = usePersistentState<RevisionInput>('rubric-checker:revisions', { original: '', revised: '' });
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const diff = useMemo(
+    () => (input.original.trim() && input.revised.trim() ? diffRubrics(parseRubric(input.original), parseRubric(input.revised)) : undefined),
+    [input]
+  );
+  const items = diff ? diff.items.filter((item) => showUnchanged || item.change !== 'unchanged') : [];
+
+  async function load(side: keyof RevisionInput, file: File | undefined) {
+    if (!file) return;
+    const text = await file.text();
+    setInput((prev) => ({ ...prev, [side]: text }));
+  }
+
+  function editor(side: keyof RevisionInput, title: string, placeholder: string) {
+    return (
+      <div className="card">
+        <div className="controls" style={{ marginTop: 0, marginBottom: 8 }}>
+          <h3 style={{ margin: 0, flex: 1 }}>{title}</h3>
+          <label className="button-secondary file-button">
+            Load…
+            <input type="file" accept=".txt,.json,.yaml,.yml,.csv" onChange={(e) => load(side, e.target.files?.[0])} hidden />
+          </label>
+        </div>
+        <textarea
+          className="textarea"
+          style={{ minHeight: 200 }}
+          value={input[side]}
+          onChange={(e) => {
+            const text = e.target.value;
+            setInput((prev) => ({ ...prev, [side]: text }));
+          }}
+          placeholder={placeholder}
+          spellCheck={false}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container">
+      <header>
+        <h1>Rubric Revisions</h1>
+        <p>
+          Paste the original rubric and the re-graded one to see what the reviewer changed, item by item.{' '}
+          <Link href="/">Back to the checker</Link>
+        </p>
+      </header>
+
+      <div className="compare-inputs">
+        {editor('original', 'Original', 'Paste the rubric as first graded...')}
+        {editor('revised', 'Revised', 'Paste the corrected rubric...')}
+      </div>
+
+      {!diff ? (
+        <p style={{ color: 'var(--muted)', marginTop: 18 }}>Fill in both rubrics to see the changes.</p>
+      ) : (
+        <>
+          <div className="card card-strong" style={{ marginTop: 18 }}>
+            <h3 style={{ marginTop: 0 }}>Summary</h3>
+            <div className="stats">
+              <div className="stat">
+                <h3>Total</h3>
+                <strong>
+                  {formatScore(diff.totalBefore)} → {formatScore(diff.totalAfter)}
+                </strong>
+              </div>
+              <div className="stat">
+                <h3>Total Change</h3>
+                <strong>{signed(diff.totalChange)}</strong>
+              </div>
+              <div className="stat">
+                <h3>Score Changes</h3>
+                <strong>{diff.scoreChanges}</strong>
+              </div>
+              <div className="stat">
+                <h3>Verdict Flips</h3>
+                <strong>{diff.verdictFlips}</strong>
+              </div>
+              <div className="stat">
+                <h3>Justifications Edited</h3>
+                <strong>{diff.justificationChanges}</strong>
+              </div>
+              <div className="stat">
+                <h3>Added / Removed</h3>
+                <strong>
+                  {diff.added} / {diff.removed}
+                </strong>
+              </div>
+            </div>
+          </div>
+
+          <div className="card" style={{ marginTop: 18 }}>
+            <div className="controls" style={{ marginTop: 0, marginBottom: 8 }}>
+              <h3 style={{ margin: 0, flex: 1 }}>Items</h3>
+              <label className="justification">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} /> Show unchanged
+                items
+              </label>
+            </div>
+            {items.length === 0 ? (
+              <p className="justification">No item changed. Items are matched by id, so reordering alone is not a change.</p>
+            ) : (
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Item</th>
+                    <th>Change</th>
+                    <th>Score</th>
+                    <th>Verdict</th>
+                    <th>Justification</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item) => (
+                    <tr key={item.id} className={item.change === 'added' || item.change === 'removed' ? `row-${item.change}` : undefined}>
+                      <td>
+                        <strong>{item.id}</strong>
+                      </td>
+                      <td>
+                        <span className={changeBadge(item.change)}>{CHANGE_LABELS[item.change]}</span>
+                      </td>
+                      <td>
+                        <ScoreCell item={item} />
+                      </td>
+                      <td>
+                        <VerdictCell item={item} />
+                      </td>
+                      <td className="justification">
+                        {item.justificationDiff ? (
+                          <WordDiff parts={item.justificationDiff} />
+                        ) : (
+                          (item.after ?? item.before)?.justification || '—'
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
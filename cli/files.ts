@@ -0,0 +1,83 @@
+import fs from 'fs';
+import path from 'path';
+import { RUBRIC_EXTENSIONS } from '../app/lib/batch';
+
+const SKIPPED_DIRS = ['node_modules', '.git', '.next'];
+
+function hasGlob(text: string) {
+  return /[*?[{]/.test(text);
+}
+
+function toPosix(file: string) {
+  return file.split(path.sep).join('/');
+}
+
+// `**` matches any number of directories, `*` and `?` stay within one, `{a,b}` picks one.
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = pattern.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+        continue;
+      }
+      const options = pattern.slice(i + 1, close).split(',');
+      source += `(?:${options.map((o) => o.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*')).join('|')})`;
+      i = close;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function walk(dir: string, out: string[]) {
+  fs.readdirSync(dir, { withFileTypes: true }).forEach((dirent) => {
+    const full = path.join(dir, dirent.name);
+    if (dirent.isDirectory()) {
+      if (!SKIPPED_DIRS.includes(dirent.name)) walk(full, out);
+    } else if (dirent.isFile()) {
+      out.push(full);
+    }
+  });
+}
+
+// Expands file arguments: plain files are kept, directories contribute every rubric file below
+// them, and glob patterns are matched here so quoted patterns work in any shell.
+export function expandFiles(patterns: string[]): string[] {
+  const found = new Set<string>();
+  patterns.forEach((pattern) => {
+    const posix = toPosix(pattern);
+    if (!hasGlob(posix)) {
+      if (!fs.existsSync(pattern)) throw new Error(`No such file or directory: ${pattern}`);
+      if (fs.statSync(pattern).isDirectory()) {
+        const files: string[] = [];
+        walk(pattern, files);
+        files.filter((f) => RUBRIC_EXTENSIONS.includes(path.extname(f).toLowerCase())).forEach((f) => found.add(f));
+      } else {
+        found.add(pattern);
+      }
+      return;
+    }
+
+    const parts = posix.split('/');
+    const firstGlob = parts.findIndex(hasGlob);
+    const base = parts.slice(0, firstGlob).join('/') || (posix.startsWith('/') ? '/' : '.');
+    const matcher = globToRegExp(parts.slice(firstGlob).join('/'));
+    if (!fs.existsSync(base)) return;
+    const files: string[] = [];
+    walk(base, files);
+    files.filter((f) => matcher.test(toPosix(path.relative(base, f)))).forEach((f) => found.add(f));
+  });
+  return Array.from(found).sort();
+}
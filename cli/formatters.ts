@@ -0,0 +1,163 @@
+import type { RubricRule, Severity } from '../app/lib/diagnostics';
+import { formatScore } from '../app/lib/format';
+import { GRAMMAR_RULE_ID } from '../app/lib/grammar';
+import { REPORT_VERSION, type RubricReport } from '../app/lib/report';
+import { formatRange } from '../app/lib/sourceRange';
+
+export type OutputFormat = 'text' | 'json' | 'junit' | 'sarif';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'junit', 'sarif'];
+
+// A file that could not be read or checked, reported next to the results.
+export interface FileFailure {
+  file: string;
+  message: string;
+}
+
+function plural(count: number, word: string) {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function formatText(reports: RubricReport[], failures: FileFailure[]) {
+  const lines: string[] = [];
+  const totals: Record<Severity, number> = { error: 0, warning: 0, info: 0 };
+  reports.forEach((report) => {
+    const { totals: t, counts } = report;
+    const possible = t.possibleTotal !== undefined ? ` / ${formatScore(t.possibleTotal)}` : '';
+    lines.push(
+      `${report.file} (${plural(t.items, 'item')}, expected total ${formatScore(t.expectedTotal)}${possible}, ${plural(t.wrongVerdicts, 'wrong verdict')})`
+    );
+    const byPosition = report.diagnostics
+      .slice()
+      .sort((a, b) => (a.range?.startOffset ?? -1) - (b.range?.startOffset ?? -1));
+    byPosition.forEach((d) => {
+      const where = d.range ? formatRange(d.range) : '-';
+      lines.push(`  ${where.padEnd(8)} ${d.severity.padEnd(8)} ${d.message}  [${d.ruleId}]`);
+    });
+    (report.grammarErrors ?? []).forEach((e) => lines.push(`  grammar check failed for ${e.itemId}: ${e.message}`));
+    (Object.keys(totals) as Severity[]).forEach((s) => {
+      totals[s] += counts[s];
+    });
+    lines.push('');
+  });
+  failures.forEach((f) => lines.push(`${f.file}: ${f.message}`, ''));
+  lines.push(
+    `${plural(reports.length, 'file')} checked: ${plural(totals.error, 'error')}, ${plural(totals.warning, 'warning')}, ${totals.info} info` +
+      (failures.length ? `; ${plural(failures.length, 'file')} failed` : '')
+  );
+  return lines.join('\n');
+}
+
+function escapeXml(text: string) {
+  return text.replace(/[<>&"']/g, (c) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[c] as string);
+}
+
+// One testsuite per file; every error or warning is a failed testcase (info is left out).
+function formatJunit(reports: RubricReport[], failures: FileFailure[]) {
+  const suites = reports.map((report) => {
+    const failing = report.diagnostics.filter((d) => d.severity !== 'info');
+    const cases = failing.length
+      ? failing.map((d) => {
+          const where = d.range ? `${report.file}:${formatRange(d.range)}` : report.file;
+          const name = `${d.ruleId}${d.itemId ? ` ${d.itemId}` : ''}`;
+          return (
+            `    <testcase classname="${escapeXml(report.file ?? '')}" name="${escapeXml(name)}">\n` +
+            `      <failure type="${d.severity}" message="${escapeXml(d.message)}">${escapeXml(`${where} ${d.message}`)}</failure>\n` +
+            '    </testcase>'
+          );
+        })
+      : [`    <testcase classname="${escapeXml(report.file ?? '')}" name="rubric-checker" />`];
+    const grammarErrors = report.grammarErrors ?? [];
+    grammarErrors.forEach((e) => {
+      cases.push(
+        `    <testcase classname="${escapeXml(report.file ?? '')}" name="${escapeXml(`grammar ${e.itemId}`)}">\n` +
+          `      <error message="${escapeXml(e.message)}" />\n` +
+          '    </testcase>'
+      );
+    });
+    return (
+      `  <testsuite name="${escapeXml(report.file ?? '')}" tests="${cases.length}" failures="${failing.length}" errors="${grammarErrors.length}">\n` +
+      `${cases.join('\n')}\n  </testsuite>`
+    );
+  });
+  failures.forEach((f) => {
+    suites.push(
+      `  <testsuite name="${escapeXml(f.file)}" tests="1" failures="0" errors="1">\n` +
+        `    <testcase classname="${escapeXml(f.file)}" name="read">\n` +
+        `      <error message="${escapeXml(f.message)}" />\n` +
+        '    </testcase>\n  </testsuite>'
+    );
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<testsuites name="rubric-checker">\n${suites.join('\n')}\n</testsuites>`;
+}
+
+const SARIF_LEVELS: Record<Severity, string> = { error: 'error', warning: 'warning', info: 'note' };
+
+function formatSarif(reports: RubricReport[], failures: FileFailure[], rules: RubricRule[]) {
+  const driverRules = rules
+    .map((rule) => ({
+      id: rule.id,
+      name: rule.title,
+      shortDescription: { text: rule.title },
+      fullDescription: { text: rule.description },
+      defaultConfiguration: { level: SARIF_LEVELS[rule.defaultSeverity] }
+    }))
+    .concat({
+      id: GRAMMAR_RULE_ID,
+      name: 'Grammar and spelling',
+      shortDescription: { text: 'Grammar and spelling' },
+      fullDescription: { text: 'Issues reported by LanguageTool in justifications.' },
+      defaultConfiguration: { level: 'warning' }
+    });
+  const results = reports.reduce<object[]>((acc, report) => {
+    report.diagnostics.forEach((d) => {
+      const region = d.range && {
+        startLine: d.range.line,
+        startColumn: d.range.startColumn,
+        endLine: d.range.endLine ?? d.range.line,
+        endColumn: d.range.endColumn
+      };
+      acc.push({
+        ruleId: d.ruleId,
+        level: SARIF_LEVELS[d.severity],
+        message: { text: d.message },
+        locations: [{ physicalLocation: { artifactLocation: { uri: report.file }, region } }]
+      });
+    });
+    return acc;
+  }, []);
+  const notifications = failures.concat(
+    reports.reduce<FileFailure[]>(
+      (acc, r) => acc.concat((r.grammarErrors ?? []).map((e) => ({ file: r.file ?? '', message: `Grammar check failed for ${e.itemId}: ${e.message}` }))),
+      []
+    )
+  );
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: { driver: { name: 'rubric-checker', rules: driverRules } },
+        results,
+        invocations: [
+          {
+            executionSuccessful: !notifications.length,
+            toolExecutionNotifications: notifications.map((f) => ({
+              level: 'error',
+              message: { text: f.message },
+              locations: [{ physicalLocation: { artifactLocation: { uri: f.file } } }]
+            }))
+          }
+        ]
+      }
+    ]
+  };
+  return JSON.stringify(sarif, null, 2);
+}
+
+export function formatResults(format: OutputFormat, reports: RubricReport[], failures: FileFailure[], rules: RubricRule[]) {
+  if (format === 'json') return JSON.stringify({ version: REPORT_VERSION, files: reports, failures }, null, 2);
+  if (format === 'junit') return formatJunit(reports, failures);
+  if (format === 'sarif') return formatSarif(reports, failures, rules);
+  return formatText(reports, failures);
+}
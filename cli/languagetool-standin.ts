@@ -0,0 +1,141 @@
+#!/usr/bin/env node
+import http from 'http';
+
+// A small LanguageTool-compatible server for offline use: answers POST /v2/check with the same
+// JSON shape as LanguageTool, using a handful of simple checks instead of real grammar rules.
+// Point LANGUAGETOOL_URL (or the CLI's --languagetool-url) at http://localhost:<port>/v2/check.
+
+interface StandinMatch {
+  message: string;
+  shortMessage: string;
+  replacements: { value: string }[];
+  offset: number;
+  length: number;
+  context: { text: string; offset: number; length: number };
+  rule: { id: string; description: string };
+}
+
+const COMMON_TYPOS: Record<string, string> = {
+  accomodate: 'accommodate',
+  acheive: 'achieve',
+  begining: 'beginning',
+  definately: 'definitely',
+  enviroment: 'environment',
+  existance: 'existence',
+  independant: 'independent',
+  occured: 'occurred',
+  occurence: 'occurrence',
+  reccomend: 'recommend',
+  recieve: 'receive',
+  seperate: 'separate',
+  sucessful: 'successful',
+  teh: 'the',
+  thier: 'their',
+  truely: 'truly',
+  untill: 'until',
+  wich: 'which'
+};
+
+function contextOf(text: string, offset: number, length: number) {
+  const start = Math.max(0, offset - 20);
+  return { text: text.slice(start, offset + length + 20), offset: offset - start, length };
+}
+
+function match(text: string, offset: number, length: number, ruleId: string, message: string, replacement?: string): StandinMatch {
+  return {
+    message,
+    shortMessage: message,
+    replacements: replacement === undefined ? [] : [{ value: replacement }],
+    offset,
+    length,
+    context: contextOf(text, offset, length),
+    rule: { id: ruleId, description: message }
+  };
+}
+
+export function standinMatches(text: string): StandinMatch[] {
+  const matches: StandinMatch[] = [];
+  let m: RegExpExecArray | null;
+
+  const repeated = /\b(\w+)\s+\1\b/gi;
+  while ((m = repeated.exec(text))) {
+    matches.push(match(text, m.index, m[0].length, 'ENGLISH_WORD_REPEAT_RULE', 'Possible typo: you repeated a word.', m[1]));
+  }
+
+  const words = /\b[A-Za-z]+\b/g;
+  while ((m = words.exec(text))) {
+    const fixed = COMMON_TYPOS[m[0].toLowerCase()];
+    if (fixed) {
+      const cased = m[0][0] === m[0][0].toUpperCase() ? fixed[0].toUpperCase() + fixed.slice(1) : fixed;
+      matches.push(match(text, m.index, m[0].length, 'MORFOLOGIK_RULE_EN_US', 'Possible spelling mistake found.', cased));
+    }
+  }
+
+  const article = /\b(a|an) ([A-Za-z]+)/gi;
+  while ((m = article.exec(text))) {
+    const vowel = /^[aeiou]/i.test(m[2]);
+    const wanted = vowel ? 'an' : 'a';
+    if (m[1].toLowerCase() !== wanted && !/^(u[nbs]|one|eu|hour|honest)/i.test(m[2])) {
+      const replacement = m[1][0] === 'A' ? wanted[0].toUpperCase() + wanted.slice(1) : wanted;
+      matches.push(match(text, m.index, m[0].length, 'EN_A_VS_AN', `Use "${wanted}" instead of "${m[1]}".`, `${replacement} ${m[2]}`));
+    }
+  }
+
+  const sentenceStart = /[.!?]\s+([a-z][a-z]+)/g;
+  while ((m = sentenceStart.exec(text))) {
+    const offset = m.index + m[0].length - m[1].length;
+    const word = m[1];
+    matches.push(
+      match(text, offset, word.length, 'UPPERCASE_SENTENCE_START', 'This sentence does not start with an uppercase letter.', word[0].toUpperCase() + word.slice(1))
+    );
+  }
+
+  return matches.sort((a, b) => a.offset - b.offset);
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function main(argv: string[]) {
+  const portFlag = argv.indexOf('--port');
+  const port = Number(portFlag === -1 ? process.env.PORT || 8081 : argv[portFlag + 1]);
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (req.method !== 'POST' || url.pathname !== '/v2/check') {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Only POST /v2/check is supported.');
+      return;
+    }
+    const params = new URLSearchParams(await readBody(req));
+    const text = params.get('text');
+    if (text === null) {
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('Missing "text" parameter.');
+      return;
+    }
+    const language = params.get('language') ?? 'en-US';
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        software: { name: 'rubric-checker LanguageTool stand-in' },
+        language: { name: language, code: language },
+        matches: standinMatches(text)
+      })
+    );
+  });
+  server.listen(port, () => {
+    console.log(`LanguageTool stand-in listening on http://localhost:${port}/v2/check`);
+  });
+}
+
+if (require.main === module) main(process.argv.slice(2));
@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { parseCoherence } from '../app/lib/coherence';
+import { parseRuleConfig } from '../app/lib/diagnostics';
+import type { FormatChoice } from '../app/lib/formats';
+import { FORMAT_LABELS } from '../app/lib/formats';
+import { grammarItems, type GrammarResult } from '../app/lib/grammar';
+import { checkGrammar, languageToolOptionsFromEnv, type LanguageToolOptions } from '../app/lib/languageTool';
+import { parseRubric, type ParseOptions } from '../app/lib/parseRubric';
+import { buildReport, type RubricReport } from '../app/lib/report';
+import { extractResponseFacts } from '../app/lib/responseFacts';
+import { BUILTIN_RULES } from '../app/lib/rules';
+import { parseTemplate } from '../app/lib/template';
+import { parseTerms } from '../app/lib/terminology';
+import { expandFiles } from './files';
+import { formatResults, OUTPUT_FORMATS, type FileFailure, type OutputFormat } from './formatters';
+
+const USAGE = `Usage: rubric-checker check <files, directories or globs...> [options]
+
+Options:
+  --format <text|json|junit|sarif>   Output format (default: text)
+  --fail-on <error|warning|none>     Lowest severity that makes the exit code 1 (default: error)
+  --input-format <auto|kv|json|yaml|csv>
+                                     Rubric format (default: auto-detect per file)
+  --template <file>                  Answer-key template to validate against
+  --rules <file>                     JSON rule settings, e.g. {"term-casing": {"enabled": false}}
+                                     (an unknown rule id is a usage error listing the valid ids)
+  --terms <file>                     Terminology list (one term per line, or the web UI's JSON export)
+  --response <file>                  Model response (Markdown) to cross-check justifications against
+  --coherence <file>                 JSON coherence settings, e.g. {"partialCredit": "below-max"}
+  --grammar                          Also check justifications with LanguageTool
+  --languagetool-url <url>           LanguageTool endpoint (default: $LANGUAGETOOL_URL or the public API)
+  --language <code>                  LanguageTool language (default: $LANGUAGETOOL_LANGUAGE or en-US)
+  --level <default|picky>            LanguageTool level (default: $LANGUAGETOOL_LEVEL or picky)
+  --concurrency <n>                  LanguageTool requests in flight at once (default: 4)
+  -h, --help                         Show this help
+
+Exit codes: 0 passed, 1 findings at or above --fail-on, 2 usage error, unreadable input or
+failed grammar requests.`;
+
+type FailOn = 'error' | 'warning' | 'none';
+
+interface CliOptions {
+  files: string[];
+  format: OutputFormat;
+  failOn: FailOn;
+  inputFormat: FormatChoice;
+  template?: string;
+  rules?: string;
+  terms?: string;
+  coherence?: string;
+  response?: string;
+  grammar: boolean;
+  languageTool: LanguageToolOptions;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    files: [],
+    format: 'text',
+    failOn: 'error',
+    inputFormat: 'auto',
+    grammar: false,
+    languageTool: languageToolOptionsFromEnv()
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('-')) {
+      options.files.push(arg);
+      continue;
+    }
+    const eq = arg.indexOf('=');
+    const flag = eq === -1 ? arg : arg.slice(0, eq);
+    const inline = eq === -1 ? undefined : arg.slice(eq + 1);
+    const value = () => {
+      const next = inline ?? argv[++i];
+      if (next === undefined) throw new Error(`${flag} needs a value.`);
+      return next;
+    };
+    const oneOf = <T extends string>(allowed: readonly T[]) => {
+      const next = value();
+      if (!allowed.includes(next as T)) throw new Error(`${flag} must be one of: ${allowed.join(', ')}.`);
+      return next as T;
+    };
+
+    if (flag === '--format') options.format = oneOf(OUTPUT_FORMATS);
+    else if (flag === '--fail-on') options.failOn = oneOf(['error', 'warning', 'none'] as const);
+    else if (flag === '--input-format') options.inputFormat = oneOf(Object.keys(FORMAT_LABELS) as FormatChoice[]);
+    else if (flag === '--template') options.template = value();
+    else if (flag === '--rules') options.rules = value();
+    else if (flag === '--terms') options.terms = value();
+    else if (flag === '--coherence') options.coherence = value();
+    else if (flag === '--response') options.response = value();
+    else if (flag === '--grammar') options.grammar = true;
+    else if (flag === '--languagetool-url') options.languageTool.url = value();
+    else if (flag === '--language') options.languageTool.language = value();
+    else if (flag === '--level') options.languageTool.level = oneOf(['default', 'picky'] as const);
+    else if (flag === '--concurrency') {
+      const count = Number(value());
+      if (!Number.isInteger(count) || count < 1) throw new Error('--concurrency must be a positive integer.');
+      options.languageTool.concurrency = count;
+    }
+    else throw new Error(`Unknown option ${flag}.`);
+  }
+  return options;
+}
+
+function readJsonFile<T>(file: string): T {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as T;
+  } catch (err) {
+    throw new Error(`Could not read ${file}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Settings shared by every file in a run.
+type CheckSettings = Pick<ParseOptions, 'ruleConfig' | 'template' | 'terms' | 'coherence' | 'response'>;
+
+async function checkFile(file: string, options: CliOptions, settings: CheckSettings) {
+  const raw = fs.readFileSync(file, 'utf8');
+  const parsed = parseRubric(raw, { ...settings, format: options.inputFormat });
+  let grammar: GrammarResult[] | undefined;
+  if (options.grammar) grammar = await checkGrammar(grammarItems(parsed.entries), options.languageTool);
+  const relative = path.relative(process.cwd(), file);
+  const shown = relative.startsWith('..') ? path.resolve(file) : relative;
+  return buildReport(parsed, { file: shown.split(path.sep).join('/'), raw, grammar });
+}
+
+function fails(report: RubricReport, failOn: FailOn) {
+  if (failOn === 'none') return false;
+  return report.counts.error > 0 || (failOn === 'warning' && report.counts.warning > 0);
+}
+
+async function main(argv: string[]) {
+  if (!argv.length || argv.includes('-h') || argv.includes('--help')) {
+    console.log(USAGE);
+    return argv.length ? 0 : 2;
+  }
+  const [command, ...rest] = argv;
+  if (command !== 'check') {
+    console.error(`Unknown command "${command}".\n\n${USAGE}`);
+    return 2;
+  }
+
+  let options: CliOptions;
+  let files: string[];
+  const settings: CheckSettings = {};
+  try {
+    options = parseArgs(rest);
+    if (!options.files.length) throw new Error('No files given.');
+    files = expandFiles(options.files);
+    if (!files.length) throw new Error(`No files matched ${options.files.join(' ')}.`);
+    if (options.rules) settings.ruleConfig = parseRuleConfig(readJsonFile<unknown>(options.rules), BUILTIN_RULES);
+    if (options.template) settings.template = parseTemplate(fs.readFileSync(options.template, 'utf8'));
+    if (options.terms) settings.terms = parseTerms(fs.readFileSync(options.terms, 'utf8'));
+    if (options.coherence) settings.coherence = parseCoherence(readJsonFile<unknown>(options.coherence));
+    if (options.response) settings.response = extractResponseFacts(fs.readFileSync(options.response, 'utf8'));
+  } catch (err) {
+    console.error(`rubric-checker: ${err instanceof Error ? err.message : String(err)}`);
+    return 2;
+  }
+
+  const reports: RubricReport[] = [];
+  const failures: FileFailure[] = [];
+  // One file at a time keeps grammar requests to the LanguageTool endpoint modest.
+  for (const file of files) {
+    try {
+      reports.push(await checkFile(file, options, settings));
+    } catch (err) {
+      failures.push({ file, message: err instanceof Error ? err.message : 'Check failed.' });
+    }
+  }
+
+  console.log(formatResults(options.format, reports, failures, BUILTIN_RULES));
+  if (failures.length || reports.some((r) => r.grammarErrors)) return 2;
+  return reports.some((r) => fails(r, options.failOn)) ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err) => {
+    console.error(err);
+    process.exitCode = 2;
+  }
+);